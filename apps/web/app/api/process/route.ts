@@ -0,0 +1,51 @@
+import { assertAuthorized } from "@/lib/api/auth"
+import { toErrorBody, toErrorResponse } from "@/lib/api/errors"
+import { parseApiRequest } from "@/lib/api/request"
+import { PROCESS_STREAM_CONTENT_TYPE, type ProcessStreamMessage } from "@/lib/api/stream"
+import { processImage } from "@/lib/pipeline"
+
+export const runtime = "nodejs"
+
+// POST /api/process: how the page runs the pipeline for one image. streams each stage as a line of JSON, ending with the result or an error. when the browser
+// disconnects (the cancel button) the request signal aborts, which cancels the upstream calls. like /api/v1, it
+// needs the API_KEY bearer token when one is configured
+export const POST = async (request: Request) => {
+  let input
+  try {
+    assertAuthorized(request)
+    input = await parseApiRequest(request)
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+  const { imageBase64, options } = input
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      const encoder = new TextEncoder()
+      const send = (message: ProcessStreamMessage) => {
+        if (request.signal.aborted) return
+        controller.enqueue(encoder.encode(`${JSON.stringify(message)}\n`))
+      }
+
+      try {
+        const result = await processImage(imageBase64, options, {
+          onEvent: (event) => send({ type: "event", event }),
+          signal: request.signal,
+        })
+        send({ type: "result", result })
+      } catch (error) {
+        send({ type: "error", ...toErrorBody(error).body })
+      } finally {
+        // a disconnected client has already cancelled the stream
+        if (!request.signal.aborted) controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": PROCESS_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    },
+  })
+}
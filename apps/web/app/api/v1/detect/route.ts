@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { assertAuthorized } from "@/lib/api/auth"
+import { toErrorResponse } from "@/lib/api/errors"
+import { applyLabelFilter, applyReviewThreshold, parseApiRequest } from "@/lib/api/request"
+import { readImageMetadata } from "@/lib/metadata"
+import { processImage } from "@/lib/pipeline"
+
+export const runtime = "nodejs"
+
+// POST /api/v1/detect: find PII in an image and return it with bounding boxes, without redacting anything
+export const POST = async (request: Request) => {
+  try {
+    assertAuthorized(request)
+    const { imageBase64, options } = await parseApiRequest(request)
+
+    const { piiData, unlocatedPii, width, height, orientation, warnings } = await processImage(imageBase64, options)
+
+    return NextResponse.json({
+      piiData: applyReviewThreshold(applyLabelFilter(piiData, options.labels), options.reviewThreshold),
+      unlocatedPii,
+      width,
+      height,
+      orientation,
+      // non-empty when a detector was unavailable and the results may be missing items
+      warnings,
+      // what the uploaded file carries, e.g. GPS location or camera serial number. /redact never returns it
+      metadata: readImageMetadata(Buffer.from(imageBase64, "base64")),
+    })
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+}
@@ -0,0 +1,44 @@
+import sharp from "sharp"
+import { assertAuthorized } from "@/lib/api/auth"
+import { toErrorResponse } from "@/lib/api/errors"
+import { applyLabelFilter, applyReviewThreshold, parseApiRequest } from "@/lib/api/request"
+import { readImageMetadata } from "@/lib/metadata"
+import { processImage } from "@/lib/pipeline"
+import { renderRedactedImageOnServer } from "@/lib/redaction/server"
+
+export const runtime = "nodejs"
+
+// POST /api/v1/redact: detect PII in an image and return the image with it burned in
+export const POST = async (request: Request) => {
+  try {
+    assertAuthorized(request)
+    const { imageBase64, options } = await parseApiRequest(request)
+
+    const { piiData, unlocatedPii, warnings } = await processImage(imageBase64, options)
+    const regions = applyReviewThreshold(applyLabelFilter(piiData, options.labels), options.reviewThreshold)
+
+    // keep the caller's format unless they asked for a specific one
+    const image = Buffer.from(imageBase64, "base64")
+    const { format: inputFormat } = await sharp(image).metadata()
+    const format = options.format ?? (inputFormat === "jpeg" ? "jpeg" : "png")
+
+    const output = await renderRedactedImageOnServer(image, regions, format, options.style)
+
+    return new Response(new Uint8Array(output), {
+      headers: {
+        "Content-Type": `image/${format}`,
+        "Content-Disposition": `inline; filename="redacted.${format === "jpeg" ? "jpg" : "png"}"`,
+        "X-Redaction-Count": String(regions.filter((pii) => pii.redacted).length),
+        "X-Needs-Review-Count": String(regions.filter((pii) => pii.review === "pending").length),
+        // detected but not found on the image, so still visible in the output
+        "X-Unlocated-Count": String(unlocatedPii.length),
+        // a detector was unavailable, so some PII may be left visible; the codes are listed
+        ...(warnings.length > 0 && { "X-Partial-Results": warnings.map((warning) => warning.code).join(",") }),
+        // metadata fields in the upload, none of which are copied to the output
+        "X-Metadata-Removed-Count": String(readImageMetadata(image).length),
+      },
+    })
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+}
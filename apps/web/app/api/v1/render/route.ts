@@ -0,0 +1,44 @@
+import sharp from "sharp"
+import { toErrorResponse } from "@/lib/api/errors"
+import { assertAuthorized } from "@/lib/api/auth"
+import { parseRenderRequest } from "@/lib/api/request"
+import { sha256Hex } from "@/lib/audit/hash"
+import { renderRedactedImageOnServer, renderRedactedPdfOnServer } from "@/lib/redaction/server"
+
+export const runtime = "nodejs"
+
+const CONTENT_TYPES = { png: "image/png", jpeg: "image/jpeg", pdf: "application/pdf" }
+const EXTENSIONS = { png: "png", jpeg: "jpg", pdf: "pdf" }
+
+// POST /api/v1/render: burn already reviewed redactions into the original image or pages, without detecting anything.
+// the same input always renders the same bytes, so the returned hash can be checked against a later copy
+export const POST = async (request: Request) => {
+  try {
+    assertAuthorized(request)
+    const { pages, options } = await parseRenderRequest(request)
+
+    const images = pages.map((page) => Buffer.from(page.image, "base64"))
+    const { format: inputFormat } = await sharp(images[0]).metadata()
+    const format = options?.format ?? (pages.length > 1 ? "pdf" : inputFormat === "jpeg" ? "jpeg" : "png")
+
+    const output = format === "pdf"
+      ? await renderRedactedPdfOnServer(
+        pages.map((page, index) => ({ image: images[index], regions: page.piiData, pageSize: page.pageSize })),
+        options?.style,
+      )
+      : await renderRedactedImageOnServer(images[0], pages[0].piiData, format, options?.style)
+
+    const regions = pages.flatMap((page) => page.piiData)
+
+    return new Response(new Uint8Array(output), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `inline; filename="redacted.${EXTENSIONS[format]}"`,
+        "X-Redaction-Count": String(regions.filter((region) => region.redacted && region.vertices?.length).length),
+        "X-Content-SHA256": await sha256Hex(new Uint8Array(output).buffer),
+      },
+    })
+  } catch (error) {
+    return toErrorResponse(error)
+  }
+}
@@ -2,219 +2,452 @@
 
 import { useState, useRef, useEffect, type DragEvent } from "react"
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
+import type { IconDefinition } from "@fortawesome/fontawesome-svg-core"
 import {
   faCloudUploadAlt,
   faSpinner,
   faDownload,
   faFileImage,
-  faBrain
+  faBrain,
+  faChevronLeft,
+  faChevronRight,
+  faArrowPointer,
+  faVectorSquare,
+  faPencil,
+  faTrashCan,
+  faCircleCheck,
+  faFileShield,
+  faCheck,
+  faTriangleExclamation,
+  faXmark
 } from "@fortawesome/pro-solid-svg-icons"
 import { track } from '@vercel/analytics'
-import { processImageWithVisionApi } from "./actions"
+import { getRedactionPolicies } from "./actions"
+import { rasterizePdf } from "@/lib/pdf/rasterize"
+import { getBounds, type ImageDimensions } from "@/lib/redaction/transform"
+import { coverAllButLast } from "@/lib/pii/geometry"
+import { createConcurrencyLimit } from "@/lib/batch/limit"
+import { buildBatchManifest } from "@/lib/batch/manifest"
+import { createZip, type ZipEntry } from "@/lib/batch/zip"
+import { exportAuditReportPdf } from "@/lib/audit/pdf"
+import { auditLogToJson, createAuditReport, verifyAuditLog } from "@/lib/audit/report"
+import type { AuditReport } from "@/lib/audit/types"
+import { downloadBlob, getOutputFileName, renderDownload } from "@/lib/documents/export"
+import { UPLOADING_MESSAGE, WAITING_MESSAGE, describePipelineEvent } from "@/lib/documents/progress"
+import type { DocumentPage, RedactionDocument, Renderer } from "@/lib/documents/types"
+import type { OcrSearchHit } from "@/lib/pii/search"
+import type { PiiData, Point, UnlocatedState } from "@/lib/pii/types"
+import type { ProcessImageOptions } from "@/lib/pipeline"
+import { streamProcessImage } from "@/lib/api/client"
+import type { PolicySummary } from "@/lib/policies/types"
+import type { TermEntry } from "@/lib/terms/types"
+import { isPersonalMetadata, readFileMetadata } from "@/lib/metadata"
+import { REVIEW_FILTERS, REVIEW_SORTS, filterAndSortPii, type ReviewFilter, type ReviewSort } from "@/lib/review/filters"
+import { DEFAULT_REVIEW_THRESHOLDS, applyReviewThresholds, countNeedsReview, isDismissed, resolveReview, type ReviewThresholds } from "@/lib/review/thresholds"
+import { countOpenUnlocated, toUnlocatedPii } from "@/lib/review/unlocated"
+import { DEFAULT_REDACTION_STYLE, isReversibleMode, type RedactionStyle } from "@/lib/redaction/styles"
+import RedactionCanvas, { type EditorTool } from "@/components/redaction-canvas"
+import RedactionStylePicker from "@/components/redaction-style-picker"
+import DocumentQueue from "@/components/document-queue"
+import MetadataReport from "@/components/metadata-report"
+import ApiKeySetting from "@/components/api-key-setting"
+import MetadataSetting from "@/components/metadata-setting"
+import PolicyPicker from "@/components/policy-picker"
+import RetentionSetting from "@/components/retention-setting"
+import ReviewSettings from "@/components/review-settings"
+import TermListEditor from "@/components/term-list-editor"
+import UnlocatedPiiList from "@/components/unlocated-pii-list"
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 
-type PiiData = {
-  id: number
-  label: string
-  text: string
-  bbox: [number, number, number, number] // [x, y, width, height]
-  vertices?: Array<{ x: number, y: number }> // raw vertices from Vision API
-  redacted: boolean
-  confidence?: number // matching confidence score (0-1)
-  matchType?: string // type of match (exact, fuzzy, etc.)
-}
+const EDITOR_TOOLS: { tool: EditorTool, label: string, icon: IconDefinition }[] = [
+  { tool: "select", label: "Select, move and resize", icon: faArrowPointer },
+  { tool: "rectangle", label: "Draw rectangle", icon: faVectorSquare },
+  { tool: "freehand", label: "Draw freehand", icon: faPencil },
+]
+
+// custom term lists are kept in the browser between visits
+const TERMS_STORAGE_KEY = "redactthat:terms"
+const REVIEWER_STORAGE_KEY = "redactthat:reviewer"
+const REVIEW_THRESHOLDS_STORAGE_KEY = "redactthat:review-thresholds"
+const METADATA_AS_PII_STORAGE_KEY = "redactthat:metadata-as-pii"
+const NO_RETENTION_STORAGE_KEY = "redactthat:no-retention"
+
+// the audit log lives for the browser session, like the files under review
+const AUDIT_LOG_STORAGE_KEY = "redactthat:audit-log"
+// so does the API key, which is only needed when the server has API_KEY set
+const API_KEY_STORAGE_KEY = "redactthat:api-key"
+
+const ACCEPTED_FILE_TYPES = ["image/jpeg", "image/png", "application/pdf"]
+
+// at most this many pages are sent to the server at once, across all queued files
+const MAX_CONCURRENT_REQUESTS = 2
+const limitServerCalls = createConcurrencyLimit(MAX_CONCURRENT_REQUESTS)
+
+const selectClassName = "border-input h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
 
-type ProcessResult = {
-  piiData?: PiiData[]
-  error?: string
-  width?: number
-  height?: number
+// settings captured when a file is added, so later changes only affect new files
+type DetectionSettings = {
+  terms: TermEntry[]
+  reviewThresholds: ReviewThresholds
+  noRetention: boolean // opted out of server-side caching
 }
 
-type LoadingStep = "idle" | "processing" | "done"
-
-const PROCESSING_MESSAGES = [
-  "Processing with AI...",
-  "Scanning for sensitive information...",
-  "Detecting personal data...",
-  "Analyzing document structure...",
-  "Extracting text with OCR...",
-  "Identifying patterns and information...",
-  "Running smart detection algorithms...",
-  "Mapping text locations...",
-  "Almost there...",
-  "Finalizing results...",
-]
+// helper function to read a file as a base64 data URL
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.onerror = () => reject(new Error("Failed to read the image file."))
+  reader.readAsDataURL(file)
+})
 
 const HomePage = () => {
-  const [imageSrc, setImageSrc] = useState<string | null>(null)
-  const [piiData, setPiiData] = useState<PiiData[]>([])
-  const [loadingStep, setLoadingStep] = useState<LoadingStep>("idle")
+  const [documents, setDocuments] = useState<RedactionDocument[]>([])
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null)
+  const [currentPageIndex, setCurrentPageIndex] = useState(0)
   const [isDragging, setIsDragging] = useState(false)
-  const [imageDimensions, setImageDimensions] = useState<{ width: number, height: number } | null>(null)
-  const [processingMessage, setProcessingMessage] = useState(PROCESSING_MESSAGES[0])
-  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [tool, setTool] = useState<EditorTool>("select")
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [drawingUnlocatedId, setDrawingUnlocatedId] = useState<number | null>(null) // unlocated item the next drawn box covers
+  const [redactionStyle, setRedactionStyle] = useState<RedactionStyle>(DEFAULT_REDACTION_STYLE)
+  const [isExporting, setIsExporting] = useState(false)
+  const [policies, setPolicies] = useState<PolicySummary[]>([])
+  const [policyId, setPolicyId] = useState<string>()
+  const [terms, setTerms] = useState<TermEntry[]>([])
+  const [reviewThresholds, setReviewThresholds] = useState<ReviewThresholds>(DEFAULT_REVIEW_THRESHOLDS)
+  const [metadataAsPii, setMetadataAsPii] = useState(false)
+  const [noRetention, setNoRetention] = useState(false)
+  const [apiKey, setApiKey] = useState("")
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>("all")
+  const [reviewSort, setReviewSort] = useState<ReviewSort>("document")
+  const [reviewer, setReviewer] = useState("")
+  const [auditLog, setAuditLog] = useState<AuditReport[]>([])
+  const auditLogRef = useRef<AuditReport[]>([]) // read synchronously when chaining reports
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const processingControllersRef = useRef(new Map<string, AbortController>()) // files still being processed
 
-  const isLoading = loadingStep === "processing"
+  const activeDocument = documents.find((doc) => doc.id === activeDocumentId)
+  const pages = activeDocument?.pages ?? []
+  const isDocumentLoading = activeDocument?.status === "queued" || activeDocument?.status === "processing"
+  const currentPage = pages[currentPageIndex] as DocumentPage | undefined
+  const imageSrc = currentPage?.imageSrc ?? null
+  const piiData = currentPage?.piiData ?? []
+  const unlocatedPii = currentPage?.unlocatedPii ?? []
+  const pageWarnings = currentPage?.warnings ?? []
+  const imageDimensions = currentPage?.imageDimensions ?? null
+  const isPageLoading = isDocumentLoading && !imageDimensions
+  // set while the page is still being processed, including when early matches are already shown
+  const pageProgress = isDocumentLoading ? currentPage?.progress : undefined
+  const pendingReviewCount = countNeedsReview(pages)
+  const openUnlocatedCount = countOpenUnlocated(pages)
+  const isDownloadBlocked = pendingReviewCount > 0 || openUnlocatedCount > 0
+  const visiblePiiData = filterAndSortPii(piiData, reviewFilter, reviewSort)
+  // items dismissed as noise are listed separately, collapsed, so they do not crowd the ones that matter
+  const listedPiiData = visiblePiiData.filter((pii) => !isDismissed(pii))
+  const dismissedPiiData = visiblePiiData.filter(isDismissed)
 
-  // cycle through processing messages
+  // load the redaction policies configured on the server
   useEffect(() => {
-    if (loadingStep !== "processing") return
+    getRedactionPolicies().then((result) => {
+      if ("error" in result) {
+        console.error("Failed to load redaction policies:", result.error)
+        return
+      }
+      setPolicies(result.policies)
+      setPolicyId((current) => current ?? result.defaultPolicyId)
+    })
+  }, [])
 
-    const interval = setInterval(() => {
-      setProcessingMessage(prev => {
-        const currentIndex = PROCESSING_MESSAGES.indexOf(prev)
-        const nextIndex = (currentIndex + 1) % PROCESSING_MESSAGES.length
-        return PROCESSING_MESSAGES[nextIndex]
-      })
-    }, 1500) // Change message every 1.5 seconds
+  // restore the custom term lists saved in this browser
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(TERMS_STORAGE_KEY)
+      if (saved) setTerms(JSON.parse(saved))
+    } catch (error) {
+      console.error("Failed to restore custom terms:", error)
+    }
+  }, [])
 
-    return () => clearInterval(interval)
-  }, [loadingStep])
+  // restore the review thresholds saved in this browser
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(REVIEW_THRESHOLDS_STORAGE_KEY)
+      if (saved) setReviewThresholds({ ...DEFAULT_REVIEW_THRESHOLDS, ...JSON.parse(saved) })
+    } catch (error) {
+      console.error("Failed to restore review thresholds:", error)
+    }
+  }, [])
 
-  // draw the image and redactions on the canvas
+  // restore whether file metadata is reported as PII
   useEffect(() => {
-    if (!imageSrc || !canvasRef.current) return
-
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.src = imageSrc
-    img.onload = () => {
-      // set canvas to natural image size for accurate coordinate mapping
-      canvas.width = img.naturalWidth
-      canvas.height = img.naturalHeight
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-      // always draw the original image first
-      ctx.drawImage(img, 0, 0)
-
-      // only add redactions if processing is complete and we have image dimensions
-      if (!isLoading && imageDimensions) {
-        // if Vision API dimensions are swapped compared to canvas, apply coordinate transformation
-        const needsRotation = (imageDimensions.width > imageDimensions.height) !== (canvas.width > canvas.height)
-
-        // calculate scale factors
-        const scaleX = canvas.width / (needsRotation ? imageDimensions.height : imageDimensions.width)
-        const scaleY = canvas.height / (needsRotation ? imageDimensions.width : imageDimensions.height)
-
-        // apply coordinate transformation based on whether Vision API processed image rotated
-        ctx.fillStyle = "black"
-
-        piiData.forEach((pii) => {
-          if (pii.redacted && pii.vertices && pii.vertices.length > 0) {
-            let transformedVertices
-
-            if (needsRotation) {
-              // apply 90° clockwise rotation then scale
-              transformedVertices = pii.vertices.map(v => ({
-                x: (imageDimensions.height - v.y) * scaleX,
-                y: v.x * scaleY
-              }))
-            } else {
-              // just scale directly
-              transformedVertices = pii.vertices.map(v => ({
-                x: v.x * scaleX,
-                y: v.y * scaleY
-              }))
-            }
-
-            // draw polygon using the transformed vertices
-            ctx.beginPath()
-            ctx.moveTo(transformedVertices[0].x, transformedVertices[0].y)
-            for (let i = 1; i < transformedVertices.length; i++) {
-              ctx.lineTo(transformedVertices[i].x, transformedVertices[i].y)
-            }
-            ctx.closePath()
-            ctx.fill()
-          }
-        })
-      }
+    setMetadataAsPii(localStorage.getItem(METADATA_AS_PII_STORAGE_KEY) === "true")
+  }, [])
+
+  // restore the server-side caching opt-out
+  useEffect(() => {
+    setNoRetention(localStorage.getItem(NO_RETENTION_STORAGE_KEY) === "true")
+  }, [])
+
+  // restore the API key entered in this browser session
+  useEffect(() => {
+    setApiKey(sessionStorage.getItem(API_KEY_STORAGE_KEY) ?? "")
+  }, [])
+
+  // restore the reviewer name and this session's audit log, refusing a log that no longer verifies
+  useEffect(() => {
+    setReviewer(localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "")
+
+    const saved = sessionStorage.getItem(AUDIT_LOG_STORAGE_KEY)
+    if (!saved) return
+    try {
+      const reports = JSON.parse(saved) as AuditReport[]
+      verifyAuditLog(reports).then((failures) => {
+        if (failures.length > 0) {
+          console.error(`Audit log failed verification at entries ${failures.join(", ")}, starting a new log.`)
+          return
+        }
+        auditLogRef.current = reports
+        setAuditLog(reports)
+      })
+    } catch (error) {
+      console.error("Failed to restore the audit log:", error)
     }
-  }, [imageSrc, piiData, imageDimensions, isLoading])
-
-  const processImage = (file: File) => {
-    resetState()
-    setLoadingStep("processing")
-    setProcessingMessage(PROCESSING_MESSAGES[0]) // Reset to first message
-    const imageUrl = URL.createObjectURL(file)
-    setImageSrc(imageUrl)
-
-    track('image_uploaded', {
-      file_type: file.type,
-      file_size: file.size,
+  }, [])
+
+  // delete the selected redaction with the keyboard
+  useEffect(() => {
+    if (selectedId === null) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Delete" && e.key !== "Backspace") return
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select, [contenteditable]")) return
+      e.preventDefault()
+      deleteRedaction(selectedId)
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  })
+
+  const updateDocument = (
+    id: string,
+    update: Partial<RedactionDocument> | ((doc: RedactionDocument) => Partial<RedactionDocument>),
+  ) => {
+    setDocuments((prev) => prev.map((doc) => (
+      doc.id === id ? { ...doc, ...(typeof update === "function" ? update(doc) : update) } : doc
+    )))
+  }
+
+  const updatePage = (documentId: string, index: number, update: Partial<DocumentPage>) => {
+    updateDocument(documentId, (doc) => ({
+      pages: doc.pages.map((page, i) => (i === index ? { ...page, ...update } : page)),
+    }))
+  }
+
+  // run the server pipeline for one page, showing each stage and any early matches as they stream in,
+  // and return the number of PII items found
+  const detectPii = async (
+    documentId: string,
+    index: number,
+    base64String: string,
+    options: ProcessImageOptions,
+    thresholds: ReviewThresholds,
+    signal: AbortSignal,
+  ) => {
+    const result = await limitServerCalls(() => {
+      // cancelled while waiting for a slot
+      signal.throwIfAborted()
+      updateDocument(documentId, (doc) => (doc.status === "queued" ? { status: "processing" } : {}))
+      updatePage(documentId, index, { progress: UPLOADING_MESSAGE })
+
+      let dimensions: ImageDimensions | null = null
+      return streamProcessImage(base64String, options, {
+        apiKey,
+        signal,
+        onEvent: (event) => {
+          if (event.stage === "uploaded") {
+            dimensions = { width: event.width, height: event.height, orientation: event.orientation }
+          }
+          // rule-based matches, replaced by the full result when it arrives
+          const partial = event.stage === "partial" && dimensions
+            ? { piiData: applyReviewThresholds(event.piiData, thresholds), imageDimensions: dimensions }
+            : {}
+          updatePage(documentId, index, { ...partial, progress: describePipelineEvent(event) })
+        },
+      })
     })
 
-    const reader = new FileReader()
-    reader.readAsDataURL(file)
-    reader.onload = async () => {
-      const base64String = (reader.result as string).split(",")[1]
-      if (!base64String) {
-        alert("Could not read image file.")
-        resetState()
-        return
-      }
+    // low-confidence and flagged matches start unredacted and wait for the reviewer
+    const pagePiiData = applyReviewThresholds(result.piiData, thresholds)
+    const pageUnlocatedPii = toUnlocatedPii(result.unlocatedPii)
 
-      const result = await processImageWithVisionApi(base64String) as ProcessResult
+    // store image dimensions from the Vision API processing
+    updatePage(documentId, index, {
+      piiData: pagePiiData,
+      unlocatedPii: pageUnlocatedPii,
+      words: result.words,
+      warnings: result.warnings.map((warning) => warning.message),
+      imageDimensions: { width: result.width, height: result.height, orientation: result.orientation },
+      progress: undefined,
+    })
 
-      if (result.error) {
-        alert(`Error: ${result.error}`)
-        resetState()
-        return
-      }
+    if (pagePiiData.length > 0) {
+      track('pii_detected', {
+        pii_count: pagePiiData.length,
+        pii_types: pagePiiData.map(p => p.label).join(','),
+        flagged_count: pagePiiData.filter(p => p.flagged).length,
+        policy: options.policy ?? 'default',
+        term_list_count: pagePiiData.filter(p => p.source === "term-list").length,
+        needs_review_count: pagePiiData.filter(p => p.review === "pending").length,
+        dismissed_count: pagePiiData.filter(p => p.review === "dismissed").length,
+      })
+    }
+    if (result.warnings.length > 0) {
+      track('partial_results', { codes: result.warnings.map((warning) => warning.code).join(',') })
+    }
+    if (pageUnlocatedPii.length > 0) {
+      track('pii_unlocated', {
+        unlocated_count: pageUnlocatedPii.length,
+        pii_types: pageUnlocatedPii.map(p => p.label).join(','),
+      })
+    }
 
-      // store image dimensions from the Vision API processing
-      if (result.width && result.height) {
-        setImageDimensions({ width: result.width, height: result.height })
-      }
+    return pagePiiData.length + pageUnlocatedPii.length
+  }
 
-      if (result.piiData && result.piiData.length > 0) {
-        setPiiData(result.piiData)
+  const processDocument = async (doc: RedactionDocument, settings: DetectionSettings) => {
+    const controller = new AbortController()
+    processingControllersRef.current.set(doc.id, controller)
 
-        track('pii_detected', {
-          pii_count: result.piiData.length,
-          pii_types: result.piiData.map(p => p.label).join(','),
+    try {
+      // report what the upload carries before detection starts; downloads are rendered fresh and never include it
+      const metadata = await readFileMetadata(doc.file).catch((error) => {
+        console.error(`Failed to read metadata from ${doc.file.name}:`, error)
+        return []
+      })
+      updateDocument(doc.id, { metadata })
+      if (metadata.length > 0) {
+        track('metadata_found', {
+          entry_count: metadata.length,
+          personal_count: metadata.filter(isPersonalMetadata).length,
         })
+      }
+
+      // PDFs are rasterised in the browser, images are sent as they are
+      let pageImages: { imageSrc: string, base64: string, pageSize?: DocumentPage["pageSize"] }[]
+      if (doc.sourceType === "pdf") {
+        const rasterizedPages = await rasterizePdf(doc.file)
+        if (rasterizedPages.length === 0) {
+          throw new Error("The PDF file has no pages.")
+        }
+        pageImages = rasterizedPages.map((page) => ({ ...page, base64: page.imageSrc.split(",")[1] }))
       } else {
-        alert("No sensitive information was found in the document.")
+        const base64String = (await readFileAsDataUrl(doc.file)).split(",")[1]
+        if (!base64String) {
+          throw new Error("Could not read image file.")
+        }
+        pageImages = [{ imageSrc: URL.createObjectURL(doc.file), base64: base64String }]
+      }
+
+      updateDocument(doc.id, {
+        pages: pageImages.map(({ imageSrc, pageSize }) => ({ imageSrc, pageSize, piiData: [], unlocatedPii: [], words: [], warnings: [], imageDimensions: null, progress: WAITING_MESSAGE })),
+      })
+
+      // pages go through the shared concurrency limit, so each can be reviewed as soon as it is ready
+      const piiCounts = await Promise.all(pageImages.map((page, index) => detectPii(
+        doc.id,
+        index,
+        page.base64,
+        { policy: doc.policyId, terms: settings.terms, cache: !settings.noRetention },
+        settings.reviewThresholds,
+        controller.signal,
+      )))
 
+      if (piiCounts.every((count) => count === 0)) {
         track('no_pii_detected')
       }
-      setLoadingStep("done")
-    }
-    reader.onerror = () => {
-      alert("Failed to read the image file.")
-      resetState()
+      updateDocument(doc.id, { status: "needs-review" })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateDocument(doc.id, { status: "failed", error: "Processing was cancelled." })
+        return
+      }
+      console.error(`Failed to process ${doc.file.name}:`, error)
+      updateDocument(doc.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "An unexpected error occurred.",
+      })
+    } finally {
+      processingControllersRef.current.delete(doc.id)
     }
   }
 
-  const handleFileChange = (file: File | null) => {
-    if (file && (file.type === "image/jpeg" || file.type === "image/png")) {
-      processImage(file)
-    } else {
-      alert("Please upload a JPG or PNG image.")
-    }
+  // stop processing a file: queued pages are skipped and requests in flight are aborted, which cancels
+  // the OCR and AI calls on the server
+  const cancelProcessing = (id: string) => {
+    const controller = processingControllersRef.current.get(id)
+    if (!controller) return
+    controller.abort()
+
+    track('processing_cancelled')
   }
 
-  const resetState = () => {
-    // revoke the previous object URL to free up memory
-    if (imageSrc) {
-      URL.revokeObjectURL(imageSrc)
+  const openDocument = (id: string | null) => {
+    setActiveDocumentId(id)
+    setCurrentPageIndex(0)
+    setSelectedId(null)
+    setDrawingUnlocatedId(null)
+  }
+
+  const addFiles = (files: File[]) => {
+    const accepted = files.filter((file) => ACCEPTED_FILE_TYPES.includes(file.type))
+    if (accepted.length < files.length) {
+      alert("Please upload JPG or PNG images, or PDFs. Other files were skipped.")
     }
-    setImageSrc(null)
-    setPiiData([])
-    setImageDimensions(null)
-    setLoadingStep("idle")
-    if (canvasRef.current) {
-      const ctx = canvasRef.current.getContext("2d")
-      ctx?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
+    if (accepted.length === 0) return
+
+    const newDocuments: RedactionDocument[] = accepted.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      sourceType: file.type === "application/pdf" ? "pdf" : "image",
+      pages: [],
+      status: "queued",
+      policyId,
+    }))
+
+    setDocuments((prev) => [...prev, ...newDocuments])
+    if (!activeDocument) {
+      openDocument(newDocuments[0].id)
+    }
+
+    newDocuments.forEach((doc) => {
+      track('image_uploaded', {
+        file_type: doc.file.type,
+        file_size: doc.file.size,
+      })
+      processDocument(doc, { terms, reviewThresholds, noRetention })
+    })
+  }
+
+  const removeDocument = (id: string) => {
+    const doc = documents.find((d) => d.id === id)
+    if (!doc) return
+
+    processingControllersRef.current.get(id)?.abort()
+
+    // revoke the object URLs to free up memory
+    doc.pages.forEach((page) => {
+      if (page.imageSrc.startsWith("blob:")) {
+        URL.revokeObjectURL(page.imageSrc)
+      }
+    })
+
+    const remaining = documents.filter((d) => d.id !== id)
+    setDocuments(remaining)
+    if (id === activeDocumentId) {
+      openDocument(remaining[0]?.id ?? null)
     }
   }
 
@@ -222,8 +455,8 @@ const HomePage = () => {
     e.preventDefault()
     e.stopPropagation()
     setIsDragging(false)
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileChange(e.dataTransfer.files[0])
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files))
     }
   }
 
@@ -237,42 +470,335 @@ const HomePage = () => {
     }
   }
 
+  const updateCurrentPagePii = (update: (piiData: PiiData[]) => PiiData[]) => {
+    if (!activeDocumentId) return
+
+    updateDocument(activeDocumentId, (doc) => ({
+      pages: doc.pages.map((page, index) => (
+        index === currentPageIndex ? { ...page, piiData: update(page.piiData) } : page
+      )),
+    }))
+  }
+
   const toggleRedaction = (id: number) => {
-    setPiiData((prev) => {
-      const updated = prev.map((pii) => {
-        if (pii.id === id) {
-          const newRedacted = !pii.redacted
+    updateCurrentPagePii((prev) => prev.map((pii) => {
+      if (pii.id === id) {
+        const newRedacted = !pii.redacted
 
-          track('redaction_toggled', {
-            pii_type: pii.label,
-            action: newRedacted ? 'redact' : 'unredact',
-          })
+        track('redaction_toggled', {
+          pii_type: pii.label,
+          action: newRedacted ? 'redact' : 'unredact',
+        })
 
-          return { ...pii, redacted: newRedacted }
-        }
-        return pii
-      })
-      return updated
+        // ticking an item that needs review counts as a decision on it
+        return { ...pii, redacted: newRedacted, review: pii.review && (newRedacted ? "accepted" : "rejected") }
+      }
+      return pii
+    }))
+  }
+
+  const resolveItem = (id: number, decision: "accepted" | "rejected") => {
+    updateCurrentPagePii((prev) => prev.map((pii) => (pii.id === id ? resolveReview(pii, decision) : pii)))
+
+    const pii = piiData.find((p) => p.id === id)
+    track('review_resolved', {
+      pii_type: pii?.label ?? 'unknown',
+      decision,
+      confidence: pii?.confidence ?? 1,
+    })
+  }
+
+  const setUnlocatedState = (id: number, state: UnlocatedState) => {
+    if (!activeDocumentId) return
+
+    updateDocument(activeDocumentId, (doc) => ({
+      pages: doc.pages.map((page, index) => (
+        index === currentPageIndex
+          ? { ...page, unlocatedPii: page.unlocatedPii.map((item) => (item.id === id ? { ...item, state } : item)) }
+          : page
+      )),
+    }))
+  }
+
+  // add a redaction box in the processed image's coordinate space and select it
+  const addRedactionBox = (vertices: Point[], details: Pick<PiiData, "label" | "text" | "matchType">) => {
+    const id = Math.max(-1, ...piiData.map((pii) => pii.id)) + 1
+
+    updateCurrentPagePii((prev) => [...prev, {
+      id,
+      ...details,
+      bbox: getBounds(vertices),
+      vertices,
+      redacted: true,
+      confidence: 1,
+      source: "manual",
+    }])
+    setSelectedId(id)
+  }
+
+  // add a box drawn by the user, covering the unlocated item it was drawn for if there is one
+  const addManualRedaction = (vertices: Point[], shape: "rectangle" | "freehand") => {
+    const unlocated = unlocatedPii.find((item) => item.id === drawingUnlocatedId)
+    if (unlocated) {
+      addRedactionBox(vertices, { label: unlocated.label, text: unlocated.text, matchType: "manual" })
+      setUnlocatedState(unlocated.id, "covered")
+    } else {
+      addRedactionBox(vertices, { label: "Manual", text: shape === "rectangle" ? "Rectangle" : "Freehand area", matchType: "manual" })
+    }
+    setDrawingUnlocatedId(null)
+    setTool("select")
+
+    track('manual_redaction_added', { shape, unlocated: Boolean(unlocated) })
+  }
+
+  const coverUnlocatedWithSearch = (id: number, hit: OcrSearchHit) => {
+    const unlocated = unlocatedPii.find((item) => item.id === id)
+    if (!unlocated) return
+
+    addRedactionBox(hit.vertices, { label: unlocated.label, text: unlocated.text, matchType: "manual text search" })
+    setUnlocatedState(id, "covered")
+
+    track('unlocated_resolved', { pii_type: unlocated.label, resolution: 'search' })
+  }
+
+  const drawOverUnlocated = (id: number) => {
+    setDrawingUnlocatedId(id)
+    setTool("rectangle")
+  }
+
+  const dismissUnlocated = (id: number) => {
+    const unlocated = unlocatedPii.find((item) => item.id === id)
+    if (!unlocated) return
+
+    setUnlocatedState(id, "dismissed")
+    if (drawingUnlocatedId === id) setDrawingUnlocatedId(null)
+
+    track('unlocated_resolved', { pii_type: unlocated.label, resolution: 'dismissed' })
+  }
+
+  const updateRedactionGeometry = (id: number, vertices: Point[]) => {
+    updateCurrentPagePii((prev) => prev.map((pii) => (
+      // character boxes no longer line up once the box is moved or resized by hand
+      pii.id === id ? { ...pii, vertices, bbox: getBounds(vertices), characters: undefined } : pii
+    )))
+  }
+
+  // leave the last few characters of a text match visible, or cover all of it again with 0
+  const setRevealLast = (id: number, count: number) => {
+    updateCurrentPagePii((prev) => prev.map((pii) => {
+      if (pii.id !== id || !pii.characters) return pii
+      const revealLast = Math.min(Math.max(0, count), pii.characters.length - 1)
+      const vertices = coverAllButLast(pii.characters, revealLast)
+      return { ...pii, vertices, bbox: getBounds(vertices), revealLast: revealLast || undefined }
+    }))
+
+    track('partial_redaction_changed', { reveal_last: count })
+  }
+
+  const setItemRedactionStyle = (id: number, style: RedactionStyle | undefined) => {
+    updateCurrentPagePii((prev) => prev.map((pii) => (pii.id === id ? { ...pii, style } : pii)))
+
+    track('redaction_style_changed', { scope: 'item', style: style?.mode ?? 'default' })
+  }
+
+  const changePolicy = (id: string) => {
+    setPolicyId(id)
+
+    track('policy_changed', { policy: id })
+  }
+
+  const changeTerms = (entries: TermEntry[]) => {
+    setTerms(entries)
+    localStorage.setItem(TERMS_STORAGE_KEY, JSON.stringify(entries))
+
+    track('terms_changed', {
+      deny_count: entries.filter((entry) => entry.list === "deny").length,
+      allow_count: entries.filter((entry) => entry.list === "allow").length,
     })
   }
 
-  const downloadImage = () => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const changeReviewThresholds = (thresholds: ReviewThresholds) => {
+    setReviewThresholds(thresholds)
+    localStorage.setItem(REVIEW_THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds))
+
+    track('review_thresholds_changed', thresholds)
+  }
+
+  const changeMetadataAsPii = (asPii: boolean) => {
+    setMetadataAsPii(asPii)
+    localStorage.setItem(METADATA_AS_PII_STORAGE_KEY, String(asPii))
+
+    track('metadata_as_pii_changed', { enabled: asPii })
+  }
+
+  const changeNoRetention = (value: boolean) => {
+    setNoRetention(value)
+    localStorage.setItem(NO_RETENTION_STORAGE_KEY, String(value))
+
+    track('no_retention_changed', { enabled: value })
+  }
+
+  const changeApiKey = (value: string) => {
+    setApiKey(value)
+    if (value) {
+      sessionStorage.setItem(API_KEY_STORAGE_KEY, value)
+    } else {
+      sessionStorage.removeItem(API_KEY_STORAGE_KEY)
+    }
+  }
+
+  const changeRedactionStyle = (style: RedactionStyle | undefined) => {
+    setRedactionStyle(style ?? DEFAULT_REDACTION_STYLE)
+
+    track('redaction_style_changed', { scope: 'document', style: style?.mode ?? DEFAULT_REDACTION_STYLE.mode })
+  }
+
+  const deleteRedaction = (id: number) => {
+    const pii = piiData.find((p) => p.id === id)
+    if (!pii) return
+
+    updateCurrentPagePii((prev) => prev.filter((p) => p.id !== id))
+    if (selectedId === id) {
+      setSelectedId(null)
+    }
+
+    track('redaction_deleted', { pii_type: pii.label })
+  }
+
+  const changePage = (index: number) => {
+    setCurrentPageIndex(index)
+    setSelectedId(null)
+    setDrawingUnlocatedId(null)
+  }
+
+  const markReviewed = () => {
+    if (!activeDocument || isDownloadBlocked) return
+
+    updateDocument(activeDocument.id, { status: "done" })
+
+    track('document_reviewed', { page_count: activeDocument.pages.length })
+  }
+
+  // add a report per exported file to the session's hash-chained log
+  const recordAudit = async (exports: { doc: RedactionDocument, output: { name: string, blob: Blob }, renderer: Renderer }[]) => {
+    const reports: AuditReport[] = []
+    for (const { doc, output, renderer } of exports) {
+      const previous = auditLogRef.current[auditLogRef.current.length - 1] ?? null
+      const report = await createAuditReport({ doc, output, renderer, redactionStyle, reviewer: reviewer.trim() || null, metadataAsPii, previous })
+      auditLogRef.current = [...auditLogRef.current, report]
+      reports.push(report)
+      updateDocument(doc.id, { auditReport: report })
+    }
+
+    setAuditLog(auditLogRef.current)
+    sessionStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify(auditLogRef.current))
+
+    track('audit_recorded', { report_count: reports.length })
+    return reports
+  }
+
+  const changeReviewer = (name: string) => {
+    setReviewer(name)
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name)
+  }
+
+  const downloadAuditReport = async (format: "json" | "pdf") => {
+    const report = activeDocument?.auditReport
+    if (!report) return
+
+    const baseName = `redaction-audit-${report.output.name.replace(/\.[^.]+$/, "")}`
+    if (format === "json") {
+      downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: "application/json" }), `${baseName}.json`)
+    } else {
+      downloadBlob(await exportAuditReportPdf(report), `${baseName}.pdf`)
+    }
+
+    track('audit_report_downloaded', { format })
+  }
+
+  const downloadAuditLog = () => {
+    downloadBlob(new Blob([auditLogToJson(auditLog)], { type: "application/json" }), "redaction-audit-log.json")
+
+    track('audit_log_downloaded', { report_count: auditLog.length })
+  }
+
+  // blur and pixelation can leak the original text, so make the user confirm before exporting them
+  const confirmReversibleStyles = (docs: RedactionDocument[]) => {
+    const usesReversibleStyle = docs
+      .flatMap(doc => doc.pages.flatMap(page => page.piiData))
+      .some(pii => pii.redacted && isReversibleMode((pii.style ?? redactionStyle).mode))
+
+    return !usesReversibleStyle || confirm("Some redactions use blur or pixelation, which can sometimes be reversed. Download anyway?")
+  }
+
+  const downloadImage = async () => {
+    // every low-confidence match has to be accepted or rejected, and every unlocated one covered or
+    // dismissed, before anything leaves the browser
+    if (!activeDocument || isDownloadBlocked || !confirmReversibleStyles([activeDocument])) return
 
-    const redactedCount = piiData.filter(pii => pii.redacted).length
-    const totalPiiCount = piiData.length
+    const allPiiData = pages.flatMap(page => page.piiData)
+    const redactedCount = allPiiData.filter(pii => pii.redacted).length
+    const totalPiiCount = allPiiData.length
 
     track('image_downloaded', {
+      format: activeDocument.sourceType === "pdf" ? "pdf" : activeDocument.file.type === "image/jpeg" ? "jpeg" : "png",
+      page_count: pages.length,
       total_pii_found: totalPiiCount,
       redacted_count: redactedCount,
       redaction_rate: totalPiiCount > 0 ? (redactedCount / totalPiiCount) : 0,
     })
 
-    const link = document.createElement("a")
-    link.download = "redacted-image.png"
-    link.href = canvas.toDataURL("image/png")
-    link.click()
+    try {
+      // render from the reviewed data rather than the editor canvas, so selection outlines never end up in the download
+      const { blob, renderer } = await renderDownload(activeDocument, redactionStyle, apiKey)
+      const fileName = `redacted-${getOutputFileName(activeDocument)}`
+      downloadBlob(blob, fileName)
+      await recordAudit([{ doc: activeDocument, output: { name: fileName, blob }, renderer }])
+    } catch (error) {
+      console.error("Failed to export document:", error)
+      alert("Failed to export the redacted file.")
+    }
+  }
+
+  const downloadAll = async () => {
+    const reviewed = documents.filter((doc) => doc.status === "done")
+    const skipped = documents.filter((doc) => doc.status !== "done")
+    if (reviewed.length === 0) return
+
+    if (skipped.length > 0 && !confirm(`${skipped.length} file(s) have not been reviewed and will be left out of the ZIP. Continue?`)) {
+      return
+    }
+    if (!confirmReversibleStyles(reviewed)) return
+
+    setIsExporting(true)
+    try {
+      // render one file at a time to keep memory use flat for large batches
+      const entries: ZipEntry[] = []
+      const renderers: Renderer[] = []
+      for (const doc of reviewed) {
+        const { blob, renderer } = await renderDownload(doc, redactionStyle, apiKey)
+        entries.push({ name: getOutputFileName(doc), blob })
+        renderers.push(renderer)
+      }
+
+      const reports = await recordAudit(reviewed.map((doc, index) => ({ doc, output: entries[index], renderer: renderers[index] })))
+      const auditLogEntry = { name: "audit-log.json", blob: new Blob([auditLogToJson(auditLogRef.current)], { type: "application/json" }) }
+
+      const zip = await createZip([...entries, auditLogEntry], (names) =>
+        buildBatchManifest(reviewed.map((doc, index) => ({ doc, outputName: names[index], auditHash: reports[index].hash })), skipped),
+      )
+      downloadBlob(zip, "redacted-files.zip")
+
+      track('batch_downloaded', {
+        file_count: reviewed.length,
+        skipped_count: skipped.length,
+      })
+    } catch (error) {
+      console.error("Failed to export ZIP:", error)
+      alert("Failed to export the redacted files.")
+    } finally {
+      setIsExporting(false)
+    }
   }
 
   return (
@@ -281,7 +807,7 @@ const HomePage = () => {
         <header className="text-center mb-8">
           <h1 className="text-4xl font-bold tracking-tight">RedactThat</h1>
           <p className="text-slate-600 mt-2">
-            Upload an image to automatically detect and redact sensitive information.
+            Upload images or PDFs to automatically detect and redact sensitive information.
           </p>
         </header>
 
@@ -289,7 +815,7 @@ const HomePage = () => {
           <div className="lg:col-span-2">
             <Card className="h-full">
               <CardContent className="p-6 h-full flex items-center justify-center relative">
-                {!imageSrc && !isLoading && (
+                {!activeDocument && (
                   <div
                     className={`w-full h-[60vh] max-h-[700px] border-2 border-dashed rounded-lg flex flex-col items-center justify-center transition-colors ${isDragging ? "border-blue-500 bg-blue-50" : "border-slate-300 bg-slate-100"}`}
                     onDrop={handleDrop}
@@ -299,31 +825,117 @@ const HomePage = () => {
                     onClick={() => fileInputRef.current?.click()}
                   >
                     <FontAwesomeIcon icon={faCloudUploadAlt} className="w-16 h-16 text-slate-400 mb-4" />
-                    <p className="text-slate-600 font-semibold">Drag & drop an image here</p>
+                    <p className="text-slate-600 font-semibold">Drag & drop images or PDFs here</p>
                     <p className="text-slate-500 text-sm">or</p>
                     <Button variant="outline" className="mt-2 bg-transparent">
                       Browse Files
                     </Button>
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      accept="image/png, image/jpeg"
-                      className="hidden"
-                      onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
-                    />
-                    <p className="text-xs text-slate-400 mt-4">Supports PNG and JPG</p>
+                    <p className="text-xs text-slate-400 mt-4">Supports PNG, JPG and PDF</p>
                   </div>
                 )}
-                {(isLoading || imageSrc) && (
-                  <div className="w-full h-full relative flex items-center justify-center">
-                    <canvas ref={canvasRef} className="max-w-full max-h-[70vh] object-contain rounded-md shadow-md" />
-                    {isLoading && (
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/png, image/jpeg, application/pdf"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    addFiles(Array.from(e.target.files ?? []))
+                    e.target.value = "" // allow the same file to be added again
+                  }}
+                />
+                {activeDocument && (
+                  <div className="w-full h-full relative flex flex-col items-center justify-center gap-4">
+                    {imageDimensions && !pageProgress && (
+                      <div className="flex items-center gap-2">
+                        {EDITOR_TOOLS.map(({ tool: editorTool, label, icon }) => (
+                          <Button
+                            key={editorTool}
+                            variant={tool === editorTool ? "default" : "outline"}
+                            size="icon"
+                            onClick={() => {
+                              setTool(editorTool)
+                              setDrawingUnlocatedId(null)
+                            }}
+                            aria-label={label}
+                            title={label}
+                          >
+                            <FontAwesomeIcon icon={icon} className="h-4 w-4" />
+                          </Button>
+                        ))}
+                        {selectedId !== null && (
+                          <Button variant="outline" size="icon" onClick={() => deleteRedaction(selectedId)} aria-label="Delete selected redaction" title="Delete selected redaction">
+                            <FontAwesomeIcon icon={faTrashCan} className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {imageDimensions && pageProgress && (
+                      <div className="flex items-center gap-3 text-sm text-slate-600">
+                        <FontAwesomeIcon icon={faSpinner} className="h-4 w-4 text-blue-600 animate-spin" />
+                        <span>{pageProgress}</span>
+                        <Button variant="outline" size="sm" onClick={() => cancelProcessing(activeDocument.id)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                    {imageSrc && (
+                      // early matches are replaced when processing finishes, so they are not editable yet
+                      <div className="contents" inert={!!pageProgress}>
+                        <RedactionCanvas
+                          imageSrc={imageSrc}
+                          piiData={piiData}
+                          imageDimensions={isPageLoading ? null : imageDimensions}
+                          redactionStyle={redactionStyle}
+                          tool={tool}
+                          selectedId={selectedId}
+                          onSelect={setSelectedId}
+                          onCreate={addManualRedaction}
+                          onUpdate={updateRedactionGeometry}
+                          className="max-w-full max-h-[70vh] object-contain rounded-md shadow-md"
+                        />
+                      </div>
+                    )}
+                    {pages.length > 1 && (
+                      <div className="flex items-center gap-4">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => changePage(currentPageIndex - 1)}
+                          disabled={currentPageIndex === 0}
+                          aria-label="Previous page"
+                        >
+                          <FontAwesomeIcon icon={faChevronLeft} className="h-4 w-4" />
+                        </Button>
+                        <span className="text-sm text-slate-600">
+                          Page {currentPageIndex + 1} of {pages.length}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => changePage(currentPageIndex + 1)}
+                          disabled={currentPageIndex === pages.length - 1}
+                          aria-label="Next page"
+                        >
+                          <FontAwesomeIcon icon={faChevronRight} className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                    {activeDocument.status === "failed" && (
+                      <p className="text-sm text-red-700 bg-red-50 rounded-md p-3">
+                        {activeDocument.error ?? "Processing failed."}
+                      </p>
+                    )}
+                    {isPageLoading && (
                       <div className="absolute inset-0 bg-white/70 backdrop-blur-sm flex flex-col items-center justify-center z-10 rounded-lg">
                         <FontAwesomeIcon icon={faSpinner} className="w-12 h-12 text-blue-600 animate-spin" />
                         <p className="mt-4 text-lg font-semibold text-slate-700 flex items-center gap-2 transition-all duration-300">
                           <FontAwesomeIcon icon={faBrain} className="w-5 h-5" />
-                          {processingMessage}
+                          {pageProgress ?? "Preparing the file..."}
                         </p>
+                        <Button variant="outline" className="mt-4" onClick={() => cancelProcessing(activeDocument.id)}>
+                          Cancel
+                        </Button>
                       </div>
                     )}
                   </div>
@@ -332,7 +944,32 @@ const HomePage = () => {
             </Card>
           </div>
 
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-8">
+            <Card>
+              <CardContent className="space-y-4">
+                {policies.length > 0 && (
+                  <PolicyPicker policies={policies} policyId={policyId} onChange={changePolicy} />
+                )}
+                <ReviewSettings thresholds={reviewThresholds} onChange={changeReviewThresholds} />
+                <MetadataSetting asPii={metadataAsPii} onChange={changeMetadataAsPii} />
+                <RetentionSetting noRetention={noRetention} onChange={changeNoRetention} />
+                <ApiKeySetting apiKey={apiKey} onChange={changeApiKey} />
+              </CardContent>
+            </Card>
+            <TermListEditor terms={terms} onChange={changeTerms} />
+            {documents.length > 0 && (
+              <DocumentQueue
+                documents={documents}
+                activeDocumentId={activeDocumentId}
+                onOpen={openDocument}
+                onRemove={removeDocument}
+                onAddFiles={() => fileInputRef.current?.click()}
+                onDownloadAll={downloadAll}
+                onDownloadAuditLog={downloadAuditLog}
+                auditLogCount={auditLog.length}
+                isExporting={isExporting}
+              />
+            )}
             <Card className="sticky top-8">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -341,33 +978,231 @@ const HomePage = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {piiData.length > 0 ? (
-                  <div className="space-y-4">
-                    {piiData.map((pii) => (
-                      <div key={pii.id} className="flex items-center space-x-3 p-3 bg-slate-100 rounded-md">
+                <div className="mb-4 space-y-2">
+                  <Label htmlFor="document-style-mode" className="text-sm text-slate-600">Redaction style</Label>
+                  <RedactionStylePicker
+                    id="document-style"
+                    style={redactionStyle}
+                    defaultStyle={DEFAULT_REDACTION_STYLE}
+                    onChange={changeRedactionStyle}
+                  />
+                </div>
+                {pageWarnings.length > 0 && (
+                  <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 space-y-1" role="status">
+                    <p className="flex gap-2 font-semibold">
+                      <FontAwesomeIcon icon={faTriangleExclamation} className="h-4 w-4 mt-0.5 shrink-0" />
+                      Results for this page are partial
+                    </p>
+                    {pageWarnings.map((warning) => <p key={warning}>{warning}</p>)}
+                    <p>Check the page carefully and add anything that was missed, or remove the file and add it again later.</p>
+                  </div>
+                )}
+                <MetadataReport entries={activeDocument?.metadata ?? []} asPii={metadataAsPii} className="mb-4" />
+                <UnlocatedPiiList
+                  items={unlocatedPii}
+                  words={currentPage?.words ?? []}
+                  drawingId={drawingUnlocatedId}
+                  onCover={coverUnlocatedWithSearch}
+                  onDraw={drawOverUnlocated}
+                  onDismiss={dismissUnlocated}
+                  className="mb-4"
+                />
+                {piiData.length > 0 && (
+                  <div className="mb-4 flex gap-2">
+                    <Label htmlFor="review-filter" className="sr-only">Show</Label>
+                    <select id="review-filter" className={`${selectClassName} flex-1 min-w-0`} value={reviewFilter} onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}>
+                      {REVIEW_FILTERS.map(({ filter, label }) => (
+                        <option key={filter} value={filter}>{label}</option>
+                      ))}
+                    </select>
+                    <Label htmlFor="review-sort" className="sr-only">Sort</Label>
+                    <select id="review-sort" className={`${selectClassName} flex-1 min-w-0`} value={reviewSort} onChange={(e) => setReviewSort(e.target.value as ReviewSort)}>
+                      {REVIEW_SORTS.map(({ sort, label }) => (
+                        <option key={sort} value={sort}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {visiblePiiData.length > 0 ? (
+                  <div className="space-y-4" inert={!!pageProgress}>
+                    {listedPiiData.map((pii) => (
+                      <div
+                        key={pii.id}
+                        className={`flex items-center space-x-3 p-3 rounded-md ${selectedId === pii.id ? "bg-blue-50 ring-1 ring-blue-300" : "bg-slate-100"}`}
+                        onClick={() => setSelectedId(pii.id)}
+                      >
                         <Checkbox
                           id={`pii-${pii.id}`}
                           checked={pii.redacted}
                           onCheckedChange={() => toggleRedaction(pii.id)}
                         />
-                        <Label htmlFor={`pii-${pii.id}`} className="flex-grow cursor-pointer">
-                          <span className="font-semibold">{pii.label}:</span>
-                          <span className="text-slate-600 ml-2 truncate">{pii.text}</span>
-                        </Label>
+                        <div className="flex-grow min-w-0 space-y-2">
+                          <Label htmlFor={`pii-${pii.id}`} className="cursor-pointer">
+                            <span className="font-semibold">{pii.label}:</span>
+                            <span className="text-slate-600 ml-2 truncate">{pii.text}</span>
+                            {pii.source === "term-list" && (
+                              <span className="ml-2 text-xs font-medium rounded-full px-2 py-0.5 bg-purple-100 text-purple-800" title="Matched an entry in your custom terms">
+                                Term list
+                              </span>
+                            )}
+                            {pii.review === "pending" && (
+                              <span className="ml-2 text-xs font-medium rounded-full px-2 py-0.5 bg-amber-100 text-amber-800" title={pii.confidence !== undefined ? `Match confidence ${Math.round(pii.confidence * 100)}%` : undefined}>
+                                Needs review
+                              </span>
+                            )}
+                            {pii.flagged && (
+                              <span className="ml-2 text-xs font-medium rounded-full px-2 py-0.5 bg-amber-100 text-amber-800" title="The redaction policy only flags this category">
+                                Flagged
+                              </span>
+                            )}
+                          </Label>
+                          {selectedId === pii.id && (
+                            <RedactionStylePicker
+                              id={`pii-${pii.id}-style`}
+                              style={pii.style}
+                              defaultStyle={redactionStyle}
+                              onChange={(style) => setItemRedactionStyle(pii.id, style)}
+                              allowDefault
+                            />
+                          )}
+                          {selectedId === pii.id && pii.characters && pii.characters.length > 1 && (
+                            <div className="flex items-center gap-2">
+                              <Label htmlFor={`pii-${pii.id}-reveal`} className="text-sm text-slate-600">Leave last</Label>
+                              <input
+                                id={`pii-${pii.id}-reveal`}
+                                type="number"
+                                min={0}
+                                max={pii.characters.length - 1}
+                                className={`${selectClassName} w-16`}
+                                value={pii.revealLast ?? 0}
+                                onChange={(e) => setRevealLast(pii.id, Number(e.target.value) || 0)}
+                              />
+                              <span className="text-sm text-slate-600">characters visible</span>
+                            </div>
+                          )}
+                        </div>
+                        {pii.review === "pending" && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                resolveItem(pii.id, "accepted")
+                              }}
+                              aria-label={`Accept ${pii.label}`}
+                              title="Accept (redact)"
+                            >
+                              <FontAwesomeIcon icon={faCheck} className="h-4 w-4 text-green-700" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                resolveItem(pii.id, "rejected")
+                              }}
+                              aria-label={`Reject ${pii.label}`}
+                              title="Reject (leave visible)"
+                            >
+                              <FontAwesomeIcon icon={faXmark} className="h-4 w-4 text-red-700" />
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            deleteRedaction(pii.id)
+                          }}
+                          aria-label={`Remove ${pii.label}`}
+                          title="Remove (false positive)"
+                        >
+                          <FontAwesomeIcon icon={faTrashCan} className="h-4 w-4 text-slate-500" />
+                        </Button>
                       </div>
                     ))}
+                    {dismissedPiiData.length > 0 && (
+                      <details className="rounded-md bg-slate-50 p-3 text-sm">
+                        <summary className="cursor-pointer text-slate-600">
+                          Dismissed as noise ({dismissedPiiData.length})
+                        </summary>
+                        <p className="mt-2 text-xs text-slate-500">
+                          Scored below your &quot;Ignore below&quot; threshold, so left visible. Tick one to redact it.
+                        </p>
+                        <div className="mt-2 space-y-2">
+                          {dismissedPiiData.map((pii) => (
+                            <div key={pii.id} className="flex items-center gap-2" onClick={() => setSelectedId(pii.id)}>
+                              <Checkbox
+                                id={`pii-${pii.id}`}
+                                checked={pii.redacted}
+                                onCheckedChange={() => toggleRedaction(pii.id)}
+                              />
+                              <Label htmlFor={`pii-${pii.id}`} className="cursor-pointer min-w-0 text-slate-600">
+                                <span className="font-semibold">{pii.label}:</span>
+                                <span className="ml-2 truncate">{pii.text}</span>
+                                {pii.confidence !== undefined && (
+                                  <span className="ml-2 text-xs text-slate-500">{Math.round(pii.confidence * 100)}%</span>
+                                )}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      </details>
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-10 text-slate-500">
-                    {isLoading ? <p>Processing...</p> : <p>Upload an image to see detected PII.</p>}
+                    {isPageLoading ? <p>Processing...</p> : piiData.length > 0 ? <p>No items match this filter.</p> : unlocatedPii.length > 0 ? <p>Nothing detected on this page could be located automatically.</p> : pageWarnings.length > 0 ? <p>Nothing was detected, but detection was incomplete.</p> : imageSrc ? <p>No sensitive information on this page.</p> : <p>Upload an image to see detected PII.</p>}
                   </div>
                 )}
               </CardContent>
-              <CardFooter>
-                <Button className="w-full" onClick={downloadImage} disabled={!imageSrc || isLoading}>
+              <CardFooter className="flex flex-col gap-2">
+                {activeDocument && (
+                  <div className="w-full space-y-1">
+                    <Label htmlFor="reviewer" className="text-sm text-slate-600">Reviewer</Label>
+                    <input
+                      id="reviewer"
+                      className="border-input h-8 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                      placeholder="Your name, recorded in the audit report"
+                      value={reviewer}
+                      onChange={(e) => changeReviewer(e.target.value)}
+                    />
+                  </div>
+                )}
+                {pendingReviewCount > 0 && (
+                  <p className="w-full text-sm text-amber-800 bg-amber-50 rounded-md p-2">
+                    Resolve {pendingReviewCount} {pendingReviewCount === 1 ? "item" : "items"} that {pendingReviewCount === 1 ? "needs" : "need"} review before downloading.
+                  </p>
+                )}
+                {openUnlocatedCount > 0 && (
+                  <p className="w-full text-sm text-red-800 bg-red-50 rounded-md p-2">
+                    Cover or dismiss {openUnlocatedCount} unlocated {openUnlocatedCount === 1 ? "item" : "items"} before downloading.
+                  </p>
+                )}
+                {activeDocument?.status === "needs-review" && (
+                  <Button variant="outline" className="w-full" onClick={markReviewed} disabled={isDownloadBlocked}>
+                    <FontAwesomeIcon icon={faCircleCheck} className="mr-2 h-4 w-4" />
+                    Mark as Reviewed
+                  </Button>
+                )}
+                <Button className="w-full" onClick={downloadImage} disabled={!imageSrc || isDocumentLoading || activeDocument?.status === "failed" || isDownloadBlocked}>
                   <FontAwesomeIcon icon={faDownload} className="mr-2 h-4 w-4" />
-                  Download Redacted Image
+                  {activeDocument?.sourceType === "pdf" ? "Download Redacted PDF" : "Download Redacted Image"}
                 </Button>
+                {activeDocument?.auditReport && (
+                  <div className="flex w-full gap-2">
+                    <Button variant="ghost" className="flex-1" onClick={() => downloadAuditReport("json")} title="What was redacted or left visible, with input and output hashes">
+                      <FontAwesomeIcon icon={faFileShield} className="mr-2 h-4 w-4" />
+                      Audit JSON
+                    </Button>
+                    <Button variant="ghost" className="flex-1" onClick={() => downloadAuditReport("pdf")} title="What was redacted or left visible, with input and output hashes">
+                      <FontAwesomeIcon icon={faFileShield} className="mr-2 h-4 w-4" />
+                      Audit PDF
+                    </Button>
+                  </div>
+                )}
               </CardFooter>
             </Card>
           </div>
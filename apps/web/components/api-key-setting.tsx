@@ -0,0 +1,31 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+type ApiKeySettingProps = {
+  apiKey: string
+  onChange: (apiKey: string) => void
+  className?: string
+}
+
+const ApiKeySetting = ({ apiKey, onChange, className }: ApiKeySettingProps) => (
+  <div className={cn("space-y-1", className)}>
+    <Label htmlFor="api-key" className="text-sm text-slate-600">API key</Label>
+    <input
+      id="api-key"
+      type="password"
+      autoComplete="off"
+      spellCheck={false}
+      className="border-input h-8 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      placeholder="Only if this server requires one"
+      value={apiKey}
+      onChange={(e) => onChange(e.target.value)}
+    />
+    <p className="text-xs text-slate-500">
+      Sent only to this server, and forgotten when the browser tab is closed. Applies to files added from now on.
+    </p>
+  </div>
+)
+
+export default ApiKeySetting
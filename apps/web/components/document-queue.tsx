@@ -0,0 +1,131 @@
+"use client"
+
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
+import { faFileArrowDown, faFilePlus, faXmark, faLayerGroup, faClipboardList } from "@fortawesome/pro-solid-svg-icons"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import type { DocumentStatus, RedactionDocument } from "@/lib/documents/types"
+import { cn } from "@/lib/utils"
+
+const STATUS_LABELS: Record<DocumentStatus, string> = {
+  "queued": "Queued",
+  "processing": "Processing",
+  "needs-review": "Needs review",
+  "done": "Done",
+  "failed": "Failed",
+}
+
+const STATUS_CLASSES: Record<DocumentStatus, string> = {
+  "queued": "bg-slate-200 text-slate-700",
+  "processing": "bg-blue-100 text-blue-700",
+  "needs-review": "bg-amber-100 text-amber-800",
+  "done": "bg-green-100 text-green-800",
+  "failed": "bg-red-100 text-red-700",
+}
+
+type DocumentQueueProps = {
+  documents: RedactionDocument[]
+  activeDocumentId: string | null
+  onOpen: (id: string) => void
+  onRemove: (id: string) => void
+  onAddFiles: () => void
+  onDownloadAll: () => void
+  onDownloadAuditLog: () => void
+  auditLogCount: number // reports recorded this session
+  isExporting: boolean
+}
+
+const DocumentQueue = ({
+  documents,
+  activeDocumentId,
+  onOpen,
+  onRemove,
+  onAddFiles,
+  onDownloadAll,
+  onDownloadAuditLog,
+  auditLogCount,
+  isExporting,
+}: DocumentQueueProps) => {
+  const reviewedCount = documents.filter((doc) => doc.status === "done").length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FontAwesomeIcon icon={faLayerGroup} className="w-5 h-5" />
+          Files
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {documents.map((doc) => {
+            const detectedCount = doc.pages.reduce((count, page) => count + page.piiData.length, 0)
+
+            return (
+              <li
+                key={doc.id}
+                className={cn(
+                  "flex items-center gap-2 p-2 rounded-md cursor-pointer",
+                  doc.id === activeDocumentId ? "bg-blue-50 ring-1 ring-blue-300" : "bg-slate-100 hover:bg-slate-200",
+                )}
+                onClick={() => onOpen(doc.id)}
+              >
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm font-medium truncate" title={doc.file.name}>{doc.file.name}</p>
+                  <p className="text-xs text-slate-500 truncate" title={doc.error}>
+                    {doc.status === "failed"
+                      ? doc.error ?? "Processing failed"
+                      : `${doc.pages.length > 1 ? `${doc.pages.length} pages · ` : ""}${detectedCount} detected`}
+                  </p>
+                </div>
+                <span className={cn("text-xs font-medium rounded-full px-2 py-0.5 whitespace-nowrap", STATUS_CLASSES[doc.status])}>
+                  {STATUS_LABELS[doc.status]}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRemove(doc.id)
+                  }}
+                  disabled={doc.status === "processing"}
+                  aria-label={`Remove ${doc.file.name}`}
+                >
+                  <FontAwesomeIcon icon={faXmark} className="h-4 w-4 text-slate-500" />
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button variant="outline" className="flex-1" onClick={onAddFiles}>
+          <FontAwesomeIcon icon={faFilePlus} className="mr-2 h-4 w-4" />
+          Add files
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={onDownloadAll}
+          disabled={reviewedCount === 0 || isExporting}
+          title="Downloads a ZIP of every reviewed file plus a manifest"
+        >
+          <FontAwesomeIcon icon={faFileArrowDown} className="mr-2 h-4 w-4" />
+          Download all ({reviewedCount})
+        </Button>
+        {auditLogCount > 0 && (
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={onDownloadAuditLog}
+            title="Hash-chained log of every audit report recorded in this session"
+          >
+            <FontAwesomeIcon icon={faClipboardList} className="mr-2 h-4 w-4" />
+            Session audit log ({auditLogCount})
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
+
+export default DocumentQueue
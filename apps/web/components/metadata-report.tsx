@@ -0,0 +1,36 @@
+"use client"
+
+import { isPersonalMetadata, type MetadataEntry } from "@/lib/metadata"
+import { cn } from "@/lib/utils"
+
+type MetadataReportProps = {
+  entries: MetadataEntry[]
+  asPii: boolean // list personal entries (location, names, serial numbers) as detected PII
+  className?: string
+}
+
+// what metadata the uploaded file contained, none of which is copied to the downloads
+const MetadataReport = ({ entries, asPii, className }: MetadataReportProps) => {
+  if (entries.length === 0) return null
+
+  return (
+    <div className={cn("rounded-md border bg-slate-50 p-3 space-y-2", className)}>
+      <p className="text-sm text-slate-700">
+        The uploaded file contained metadata. It is <strong>removed from downloads</strong>.
+      </p>
+      <ul className="space-y-1">
+        {entries.map((entry, index) => (
+          <li key={index} className="text-sm flex items-center min-w-0">
+            <span className="font-semibold shrink-0">{entry.label}:</span>
+            <span className="text-slate-600 ml-2 truncate" title={entry.value}>{entry.value}</span>
+            {asPii && isPersonalMetadata(entry) && (
+              <span className="ml-2 text-xs font-medium rounded-full px-2 py-0.5 bg-red-100 text-red-800 shrink-0">PII</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default MetadataReport
@@ -0,0 +1,25 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+type MetadataSettingProps = {
+  asPii: boolean
+  onChange: (asPii: boolean) => void
+  className?: string
+}
+
+const MetadataSetting = ({ asPii, onChange, className }: MetadataSettingProps) => (
+  <div className={cn("flex items-start gap-2", className)}>
+    <Checkbox id="metadata-as-pii" checked={asPii} onCheckedChange={(checked) => onChange(checked === true)} className="mt-0.5" />
+    <div className="space-y-1">
+      <Label htmlFor="metadata-as-pii" className="text-sm text-slate-600">Treat file metadata as PII</Label>
+      <p className="text-xs text-slate-500">
+        Reports GPS location, names and serial numbers from the file alongside the detections. Metadata is removed from every download either way.
+      </p>
+    </div>
+  </div>
+)
+
+export default MetadataSetting
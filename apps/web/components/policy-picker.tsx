@@ -0,0 +1,40 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import type { PolicySummary } from "@/lib/policies/types"
+import { cn } from "@/lib/utils"
+
+type PolicyPickerProps = {
+  policies: PolicySummary[]
+  policyId: string | undefined
+  onChange: (policyId: string) => void
+  className?: string
+}
+
+const selectClassName = "border-input h-8 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+const PolicyPicker = ({ policies, policyId, onChange, className }: PolicyPickerProps) => {
+  const selected = policies.find((policy) => policy.id === policyId)
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Label htmlFor="redaction-policy" className="text-sm text-slate-600">Redaction policy</Label>
+      <select
+        id="redaction-policy"
+        className={selectClassName}
+        value={policyId ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={policies.length === 0}
+      >
+        {policies.map((policy) => (
+          <option key={policy.id} value={policy.id}>{policy.name}</option>
+        ))}
+      </select>
+      {selected && (
+        <p className="text-xs text-slate-500">{selected.description} Applies to files added from now on.</p>
+      )}
+    </div>
+  )
+}
+
+export default PolicyPicker
@@ -0,0 +1,292 @@
+"use client"
+
+import { useEffect, useRef, useState, type PointerEvent } from "react"
+import type { PiiData, Point } from "@/lib/pii/types"
+import { drawRedactedImage, fillPolygon, IMAGE_ELEMENT_PIXELS, loadImage, type ImageDimensions } from "@/lib/redaction/render"
+import { createCoordinateTransform, getBounds } from "@/lib/redaction/transform"
+import type { RedactionStyle } from "@/lib/redaction/styles"
+import { cn } from "@/lib/utils"
+
+export type EditorTool = "select" | "rectangle" | "freehand"
+
+type Corner = "nw" | "ne" | "se" | "sw"
+
+// in-progress pointer interaction, all points in canvas coordinates
+type DragState =
+  | { kind: "rectangle", start: Point, current: Point }
+  | { kind: "freehand", points: Point[] }
+  | { kind: "move", id: number, start: Point, original: Point[], current: Point[] }
+  | { kind: "resize", id: number, corner: Corner, original: Point[], current: Point[] }
+
+type RedactionCanvasProps = {
+  imageSrc: string
+  piiData: PiiData[]
+  imageDimensions: ImageDimensions | null // null while the page is still being processed
+  redactionStyle: RedactionStyle // applied to items without their own style
+  tool: EditorTool
+  selectedId: number | null
+  onSelect: (id: number | null) => void
+  onCreate: (vertices: Point[], shape: "rectangle" | "freehand") => void
+  onUpdate: (id: number, vertices: Point[]) => void
+  className?: string
+}
+
+// handle size in screen pixels, scaled to canvas pixels when drawing and hit testing
+const HANDLE_SIZE = 10
+const MIN_SHAPE_SIZE = 4
+
+const rectangleFromCorners = (a: Point, b: Point): Point[] => [
+  { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  { x: Math.min(a.x, b.x), y: Math.max(a.y, b.y) },
+]
+
+const getCorners = ([x, y, width, height]: [number, number, number, number]): Record<Corner, Point> => ({
+  nw: { x, y },
+  ne: { x: x + width, y },
+  se: { x: x + width, y: y + height },
+  sw: { x, y: y + height },
+})
+
+const OPPOSITE_CORNER: Record<Corner, Corner> = { nw: "se", ne: "sw", se: "nw", sw: "ne" }
+
+// scale a polygon so its bounds stretch from the fixed corner to the dragged point
+const resizePolygon = (points: Point[], corner: Corner, to: Point) => {
+  const bounds = getBounds(points)
+  const [, , width, height] = bounds
+  const corners = getCorners(bounds)
+  const anchor = corners[OPPOSITE_CORNER[corner]]
+  const dragged = corners[corner]
+
+  // never flip the shape inside out or shrink it below the minimum size
+  const scaleX = width > 0 ? Math.max((to.x - anchor.x) / (dragged.x - anchor.x), MIN_SHAPE_SIZE / width) : 1
+  const scaleY = height > 0 ? Math.max((to.y - anchor.y) / (dragged.y - anchor.y), MIN_SHAPE_SIZE / height) : 1
+
+  return points.map((p) => ({
+    x: anchor.x + (p.x - anchor.x) * scaleX,
+    y: anchor.y + (p.y - anchor.y) * scaleY,
+  }))
+}
+
+const isInside = (point: Point, [x, y, width, height]: [number, number, number, number], padding = 0) =>
+  point.x >= x - padding && point.x <= x + width + padding && point.y >= y - padding && point.y <= y + height + padding
+
+const RedactionCanvas = ({
+  imageSrc,
+  piiData,
+  imageDimensions,
+  redactionStyle,
+  tool,
+  selectedId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  className,
+}: RedactionCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  const isEditable = imageDimensions !== null
+
+  // load the image once per source so redrawing during a drag stays cheap
+  useEffect(() => {
+    let cancelled = false
+    setImage(null)
+    loadImage(imageSrc)
+      .then((img) => {
+        if (!cancelled) setImage(img)
+      })
+      .catch((error) => console.error("Failed to load page image:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [imageSrc])
+
+  // draw the image, the redactions and the editing overlay on the canvas
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+
+    // items being moved or resized are drawn at their in-progress position
+    const regions = piiData.map((pii) => {
+      if (!imageDimensions || !drag || (drag.kind !== "move" && drag.kind !== "resize") || drag.id !== pii.id) return pii
+      const { toImage } = createCoordinateTransform(canvas, imageDimensions, IMAGE_ELEMENT_PIXELS)
+      return { ...pii, vertices: drag.current.map(toImage) }
+    })
+
+    const ctx = drawRedactedImage(canvas, image, regions, imageDimensions, redactionStyle)
+    if (!imageDimensions) return
+
+    const { toCanvas } = createCoordinateTransform(canvas, imageDimensions, IMAGE_ELEMENT_PIXELS)
+    const pixelRatio = canvas.width / canvas.getBoundingClientRect().width || 1
+
+    // items waiting for a review decision are highlighted but not redacted
+    regions.filter((pii) => pii.review === "pending" && pii.vertices && pii.vertices.length > 0).forEach((pii) => {
+      const points = pii.vertices!.map(toCanvas)
+      ctx.fillStyle = "rgba(245, 158, 11, 0.25)"
+      fillPolygon(ctx, points)
+      ctx.strokeStyle = "#d97706"
+      ctx.lineWidth = 2 * pixelRatio
+      ctx.strokeRect(...getBounds(points))
+    })
+
+    // preview of the shape being drawn
+    const draft = drag?.kind === "rectangle"
+      ? rectangleFromCorners(drag.start, drag.current)
+      : drag?.kind === "freehand" ? drag.points : null
+    if (draft && draft.length > 1) {
+      ctx.fillStyle = "rgba(0, 0, 0, 0.5)"
+      fillPolygon(ctx, draft)
+    }
+
+    // outline and resize handles for the selected item
+    const selected = regions.find((pii) => pii.id === selectedId)
+    if (selected?.vertices && selected.vertices.length > 0) {
+      const bounds = getBounds(selected.vertices.map(toCanvas))
+      ctx.strokeStyle = "#2563eb"
+      ctx.lineWidth = 2 * pixelRatio
+      ctx.setLineDash([6 * pixelRatio, 4 * pixelRatio])
+      ctx.strokeRect(...bounds)
+      ctx.setLineDash([])
+
+      const handleSize = HANDLE_SIZE * pixelRatio
+      ctx.fillStyle = "#2563eb"
+      Object.values(getCorners(bounds)).forEach((corner) => {
+        ctx.fillRect(corner.x - handleSize / 2, corner.y - handleSize / 2, handleSize, handleSize)
+      })
+    }
+  }, [image, piiData, imageDimensions, redactionStyle, drag, selectedId])
+
+  // convert a pointer position to canvas pixel coordinates
+  const getCanvasPoint = (e: PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!isEditable || !imageDimensions) return
+    const canvas = e.currentTarget
+    const point = getCanvasPoint(e)
+    canvas.setPointerCapture(e.pointerId)
+
+    if (tool === "rectangle") {
+      setDrag({ kind: "rectangle", start: point, current: point })
+      return
+    }
+    if (tool === "freehand") {
+      setDrag({ kind: "freehand", points: [point] })
+      return
+    }
+
+    const { toCanvas } = createCoordinateTransform(canvas, imageDimensions, IMAGE_ELEMENT_PIXELS)
+    const handleSize = HANDLE_SIZE * (canvas.width / canvas.getBoundingClientRect().width)
+
+    // resize handles of the current selection take priority
+    const selected = piiData.find((pii) => pii.id === selectedId)
+    if (selected?.vertices && selected.vertices.length > 0) {
+      const original = selected.vertices.map(toCanvas)
+      const corners = getCorners(getBounds(original))
+      const corner = (Object.keys(corners) as Corner[]).find((c) =>
+        Math.abs(corners[c].x - point.x) <= handleSize && Math.abs(corners[c].y - point.y) <= handleSize,
+      )
+      if (corner) {
+        setDrag({ kind: "resize", id: selected.id, corner, original, current: original })
+        return
+      }
+    }
+
+    // topmost item under the pointer wins
+    const hit = [...piiData].reverse().find((pii) =>
+      pii.vertices && pii.vertices.length > 0 && isInside(point, getBounds(pii.vertices.map(toCanvas)), handleSize / 2),
+    )
+    onSelect(hit?.id ?? null)
+    if (hit?.vertices) {
+      const original = hit.vertices.map(toCanvas)
+      setDrag({ kind: "move", id: hit.id, start: point, original, current: original })
+    }
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return
+    const point = getCanvasPoint(e)
+
+    switch (drag.kind) {
+      case "rectangle":
+        setDrag({ ...drag, current: point })
+        break
+      case "freehand": {
+        const last = drag.points[drag.points.length - 1]
+        if (Math.hypot(point.x - last.x, point.y - last.y) >= 3) {
+          setDrag({ ...drag, points: [...drag.points, point] })
+        }
+        break
+      }
+      case "move": {
+        const dx = point.x - drag.start.x
+        const dy = point.y - drag.start.y
+        setDrag({ ...drag, current: drag.original.map((p) => ({ x: p.x + dx, y: p.y + dy })) })
+        break
+      }
+      case "resize":
+        setDrag({ ...drag, current: resizePolygon(drag.original, drag.corner, point) })
+        break
+    }
+  }
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    if (canvas.hasPointerCapture(e.pointerId)) {
+      canvas.releasePointerCapture(e.pointerId)
+    }
+    if (!drag || !imageDimensions) return
+    setDrag(null)
+
+    // store geometry in the processed image's coordinate space so it goes through the same transform as OCR boxes
+    const { toImage } = createCoordinateTransform(canvas, imageDimensions, IMAGE_ELEMENT_PIXELS)
+
+    switch (drag.kind) {
+      case "rectangle": {
+        const points = rectangleFromCorners(drag.start, drag.current)
+        const [, , width, height] = getBounds(points)
+        if (width >= MIN_SHAPE_SIZE && height >= MIN_SHAPE_SIZE) {
+          onCreate(points.map(toImage), "rectangle")
+        }
+        break
+      }
+      case "freehand":
+        if (drag.points.length >= 3) {
+          onCreate(drag.points.map(toImage), "freehand")
+        }
+        break
+      case "move":
+      case "resize":
+        if (drag.current !== drag.original) {
+          onUpdate(drag.id, drag.current.map(toImage))
+        }
+        break
+    }
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn(
+        isEditable && (tool === "select" ? "cursor-pointer" : "cursor-crosshair"),
+        "touch-none",
+        className,
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+    />
+  )
+}
+
+export default RedactionCanvas
@@ -0,0 +1,62 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { REDACTION_MODES, isReversibleMode, type RedactionMode, type RedactionStyle } from "@/lib/redaction/styles"
+import { cn } from "@/lib/utils"
+
+type RedactionStylePickerProps = {
+  id: string
+  style: RedactionStyle | undefined // undefined means "use the document default"
+  defaultStyle: RedactionStyle
+  onChange: (style: RedactionStyle | undefined) => void
+  allowDefault?: boolean // offer a "Document default" option, for per-item overrides
+  className?: string
+}
+
+const selectClassName = "border-input h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+const RedactionStylePicker = ({ id, style, defaultStyle, onChange, allowDefault, className }: RedactionStylePickerProps) => {
+  const showColor = style && (style.mode === "solid" || style.mode === "label")
+
+  return (
+    <div className={cn("space-y-2", className)} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${id}-mode`} className="sr-only">Redaction style</Label>
+        <select
+          id={`${id}-mode`}
+          className={cn(selectClassName, "flex-grow")}
+          value={style?.mode ?? ""}
+          onChange={(e) => {
+            const mode = e.target.value as RedactionMode | ""
+            onChange(mode === "" ? undefined : { ...(style ?? defaultStyle), mode })
+          }}
+        >
+          {allowDefault && <option value="">Document default</option>}
+          {REDACTION_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode}>{label}</option>
+          ))}
+        </select>
+        {showColor && (
+          <>
+            <Label htmlFor={`${id}-color`} className="sr-only">Fill colour</Label>
+            <input
+              id={`${id}-color`}
+              type="color"
+              className="h-8 w-10 cursor-pointer rounded-md border border-input bg-transparent p-1"
+              value={style.color}
+              onChange={(e) => onChange({ ...style, color: e.target.value })}
+              title="Fill colour, e.g. to match the document background"
+            />
+          </>
+        )}
+      </div>
+      {style && isReversibleMode(style.mode) && (
+        <p className="text-xs text-amber-700 bg-amber-50 rounded-md p-2">
+          Blurred and pixelated text can sometimes be reconstructed. Use a solid or labelled fill for anything sensitive.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default RedactionStylePicker
@@ -0,0 +1,25 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+type RetentionSettingProps = {
+  noRetention: boolean
+  onChange: (noRetention: boolean) => void
+  className?: string
+}
+
+const RetentionSetting = ({ noRetention, onChange, className }: RetentionSettingProps) => (
+  <div className={cn("flex items-start gap-2", className)}>
+    <Checkbox id="no-retention" checked={noRetention} onCheckedChange={(checked) => onChange(checked === true)} className="mt-0.5" />
+    <div className="space-y-1">
+      <Label htmlFor="no-retention" className="text-sm text-slate-600">Don&apos;t keep results on the server</Label>
+      <p className="text-xs text-slate-500">
+        OCR text and detections are normally cached for a short time so re-uploading the same file is instant. Tick to keep nothing. Applies to files added from now on.
+      </p>
+    </div>
+  </div>
+)
+
+export default RetentionSetting
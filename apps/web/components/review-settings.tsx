@@ -0,0 +1,59 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import type { ReviewThresholds } from "@/lib/review/thresholds"
+import { cn } from "@/lib/utils"
+
+type ReviewSettingsProps = {
+  thresholds: ReviewThresholds
+  onChange: (thresholds: ReviewThresholds) => void
+  className?: string
+}
+
+const inputClassName = "border-input h-8 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+// thresholds are stored as 0-1 scores but edited as percentages
+const toPercent = (value: number) => Math.round(value * 100)
+const fromPercent = (value: string) => Math.min(100, Math.max(0, Number(value) || 0)) / 100
+
+const ReviewSettings = ({ thresholds, onChange, className }: ReviewSettingsProps) => (
+  <div className={cn("space-y-2", className)}>
+    <div className="flex gap-2">
+      <div className="flex-1 space-y-1">
+        <Label htmlFor="review-threshold" className="text-sm text-slate-600">Review below (%)</Label>
+        <input
+          id="review-threshold"
+          type="number"
+          min={0}
+          max={100}
+          className={inputClassName}
+          value={toPercent(thresholds.review)}
+          onChange={(e) => {
+            const review = fromPercent(e.target.value)
+            onChange({ review, discard: Math.min(thresholds.discard, review) })
+          }}
+        />
+      </div>
+      <div className="flex-1 space-y-1">
+        <Label htmlFor="discard-threshold" className="text-sm text-slate-600">Ignore below (%)</Label>
+        <input
+          id="discard-threshold"
+          type="number"
+          min={0}
+          max={100}
+          className={inputClassName}
+          value={toPercent(thresholds.discard)}
+          onChange={(e) => {
+            const discard = fromPercent(e.target.value)
+            onChange({ review: Math.max(thresholds.review, discard), discard })
+          }}
+        />
+      </div>
+    </div>
+    <p className="text-xs text-slate-500">
+      Matches below the review score are highlighted but left unredacted until you accept or reject them. Applies to files added from now on.
+    </p>
+  </div>
+)
+
+export default ReviewSettings
@@ -0,0 +1,179 @@
+"use client"
+
+import { useRef, useState, type FormEvent } from "react"
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
+import { faFileExport, faFileImport, faListCheck, faPlus, faTrashCan } from "@fortawesome/pro-solid-svg-icons"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { downloadBlob } from "@/lib/documents/export"
+import { TermEntrySchema, parseTermListFile, termsToCsv, termsToJson } from "@/lib/terms/io"
+import type { TermEntry, TermListKind, TermMatchMode } from "@/lib/terms/types"
+import { cn } from "@/lib/utils"
+
+type TermListEditorProps = {
+  terms: TermEntry[]
+  onChange: (terms: TermEntry[]) => void
+}
+
+const LIST_LABELS: Record<TermListKind, string> = {
+  deny: "Always redact",
+  allow: "Never redact",
+}
+
+const inputClassName = "border-input h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+const TermListEditor = ({ terms, onChange }: TermListEditorProps) => {
+  const [list, setList] = useState<TermListKind>("deny")
+  const [match, setMatch] = useState<TermMatchMode>("literal")
+  const [value, setValue] = useState("")
+  const [label, setLabel] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const addTerm = (e: FormEvent) => {
+    e.preventDefault()
+    const result = TermEntrySchema.safeParse({ list, match, value, label: label.trim() || undefined })
+    if (!result.success) {
+      setError(result.error.issues[0].message)
+      return
+    }
+    setError(null)
+    onChange([...terms, result.data])
+    setValue("")
+    setLabel("")
+  }
+
+  const importTerms = async (file: File) => {
+    try {
+      const imported = parseTermListFile(file.name, await file.text())
+      // skip entries that are already in the list
+      const key = (entry: TermEntry) => `${entry.list}:${entry.match}:${entry.value}`
+      const existing = new Set(terms.map(key))
+      onChange([...terms, ...imported.filter((entry) => !existing.has(key(entry)))])
+      setError(null)
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : "Could not read the file.")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FontAwesomeIcon icon={faListCheck} className="w-5 h-5" />
+          Custom Terms
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="space-y-2" onSubmit={addTerm}>
+          <div className="flex gap-2">
+            <Label htmlFor="term-list" className="sr-only">List</Label>
+            <select id="term-list" className={cn(inputClassName, "flex-1")} value={list} onChange={(e) => setList(e.target.value as TermListKind)}>
+              <option value="deny">{LIST_LABELS.deny}</option>
+              <option value="allow">{LIST_LABELS.allow}</option>
+            </select>
+            <Label htmlFor="term-match" className="sr-only">Match</Label>
+            <select id="term-match" className={cn(inputClassName, "flex-1")} value={match} onChange={(e) => setMatch(e.target.value as TermMatchMode)}>
+              <option value="literal">Text</option>
+              <option value="regex">Regex</option>
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Label htmlFor="term-value" className="sr-only">Term</Label>
+            <input
+              id="term-value"
+              className={cn(inputClassName, "flex-grow min-w-0")}
+              placeholder={match === "regex" ? "e.g. CASE-\\d{6}" : "e.g. Acme Ltd"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            {list === "deny" && (
+              <>
+                <Label htmlFor="term-label" className="sr-only">Label</Label>
+                <input
+                  id="term-label"
+                  className={cn(inputClassName, "w-28")}
+                  placeholder="Label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </>
+            )}
+            <Button type="submit" variant="outline" size="icon" aria-label="Add term" disabled={!value.trim()}>
+              <FontAwesomeIcon icon={faPlus} className="h-4 w-4" />
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+        </form>
+        {terms.length > 0 ? (
+          <ul className="space-y-2 max-h-48 overflow-y-auto">
+            {terms.map((entry, index) => (
+              <li key={`${entry.list}:${entry.match}:${entry.value}:${index}`} className="flex items-center gap-2 p-2 rounded-md bg-slate-100">
+                <span className={cn(
+                  "text-xs font-medium rounded-full px-2 py-0.5 whitespace-nowrap",
+                  entry.list === "deny" ? "bg-purple-100 text-purple-800" : "bg-green-100 text-green-800",
+                )}>
+                  {LIST_LABELS[entry.list]}
+                </span>
+                <span className={cn("flex-grow min-w-0 truncate text-sm", entry.match === "regex" && "font-mono")} title={entry.value}>
+                  {entry.value}
+                </span>
+                {entry.label && <span className="text-xs text-slate-500 truncate">{entry.label}</span>}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(terms.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${entry.value}`}
+                >
+                  <FontAwesomeIcon icon={faTrashCan} className="h-4 w-4 text-slate-500" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Add names or reference formats to always redact, or your own details to never redact. Applies to files added from now on.
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importTerms(file)
+            e.target.value = ""
+          }}
+        />
+        <Button variant="outline" className="flex-1" onClick={() => importInputRef.current?.click()}>
+          <FontAwesomeIcon icon={faFileImport} className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => downloadBlob(new Blob([termsToJson(terms)], { type: "application/json" }), "redaction-terms.json")}
+          disabled={terms.length === 0}
+        >
+          <FontAwesomeIcon icon={faFileExport} className="mr-2 h-4 w-4" />
+          JSON
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => downloadBlob(new Blob([termsToCsv(terms)], { type: "text/csv" }), "redaction-terms.csv")}
+          disabled={terms.length === 0}
+        >
+          <FontAwesomeIcon icon={faFileExport} className="mr-2 h-4 w-4" />
+          CSV
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+export default TermListEditor
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState } from "react"
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome"
+import { faEyeSlash, faMagnifyingGlass, faTriangleExclamation, faVectorSquare } from "@fortawesome/pro-solid-svg-icons"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { searchOcrWords, type OcrSearchHit } from "@/lib/pii/search"
+import type { UnlocatedPii, WordInfo } from "@/lib/pii/types"
+import { cn } from "@/lib/utils"
+
+type UnlocatedPiiListProps = {
+  items: UnlocatedPii[]
+  words: WordInfo[]
+  drawingId: number | null // item waiting for the next drawn box
+  onCover: (id: number, hit: OcrSearchHit) => void
+  onDraw: (id: number) => void
+  onDismiss: (id: number) => void
+  className?: string
+}
+
+const inputClassName = "border-input h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+
+const UnlocatedPiiList = ({ items, words, drawingId, onCover, onDraw, onDismiss, className }: UnlocatedPiiListProps) => {
+  const [searchingId, setSearchingId] = useState<number | null>(null)
+  const [query, setQuery] = useState("")
+
+  const openItems = items.filter((item) => item.state === "open")
+  if (openItems.length === 0) return null
+
+  const hits = searchingId === null ? [] : searchOcrWords(words, query)
+
+  return (
+    <div className={cn("rounded-md border border-red-200 bg-red-50 p-3 space-y-3", className)}>
+      <p className="text-sm text-red-800 flex gap-2">
+        <FontAwesomeIcon icon={faTriangleExclamation} className="h-4 w-4 mt-0.5 shrink-0" />
+        <span>
+          {openItems.length === 1 ? "1 item was" : `${openItems.length} items were`} detected but could not be found on the image,
+          so {openItems.length === 1 ? "it is" : "they are"} <strong>not redacted</strong>. Search the text or draw a box to cover {openItems.length === 1 ? "it" : "them"}.
+        </span>
+      </p>
+      <ul className="space-y-2">
+        {openItems.map((item) => (
+          <li key={item.id} className="rounded-md bg-white p-2 space-y-2">
+            <div className="flex items-center gap-1">
+              <div className="flex-grow min-w-0 text-sm">
+                <span className="font-semibold">{item.label}:</span>
+                <span className="text-slate-600 ml-2 truncate">{item.text}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  setSearchingId(searchingId === item.id ? null : item.id)
+                  setQuery(item.text)
+                }}
+                aria-label={`Search the text for ${item.label}`}
+                title="Search the OCR text"
+              >
+                <FontAwesomeIcon icon={faMagnifyingGlass} className="h-4 w-4 text-slate-500" />
+              </Button>
+              <Button
+                variant={drawingId === item.id ? "default" : "ghost"}
+                size="icon"
+                onClick={() => onDraw(item.id)}
+                aria-label={`Draw a box over ${item.label}`}
+                title="Draw a box over it"
+              >
+                <FontAwesomeIcon icon={faVectorSquare} className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDismiss(item.id)}
+                aria-label={`Dismiss ${item.label}`}
+                title="Dismiss (checked, not on this page)"
+              >
+                <FontAwesomeIcon icon={faEyeSlash} className="h-4 w-4 text-slate-500" />
+              </Button>
+            </div>
+            {searchingId === item.id && (
+              <div className="space-y-2">
+                <Label htmlFor={`unlocated-${item.id}-search`} className="sr-only">Search the OCR text</Label>
+                <input
+                  id={`unlocated-${item.id}-search`}
+                  className={cn(inputClassName, "w-full")}
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Part of the text, e.g. the last few characters"
+                />
+                {hits.length > 0 ? (
+                  <ul className="space-y-1 max-h-40 overflow-y-auto">
+                    {hits.map((hit) => (
+                      <li key={hit.start}>
+                        <button
+                          type="button"
+                          className="w-full text-left text-sm rounded px-2 py-1 hover:bg-slate-100 truncate"
+                          onClick={() => {
+                            onCover(item.id, hit)
+                            setSearchingId(null)
+                          }}
+                          title="Redact these words"
+                        >
+                          {hit.text}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-slate-500">No words on this page match. Try a shorter part, or draw a box.</p>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default UnlocatedPiiList
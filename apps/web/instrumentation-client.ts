@@ -1,10 +1,14 @@
 import * as Sentry from '@sentry/nextjs';
+import { scrubSentryBreadcrumb, scrubSentryEvent } from '@/lib/logging/sentry';
 
 const SENTRY_DSN = process.env.SENTRY_DSN || process.env.NEXT_PUBLIC_SENTRY_DSN;
 
+// the browser holds the document and its detections too, so its events are scrubbed like the server's
 Sentry.init({
   dsn: SENTRY_DSN,
-  sendDefaultPii: true,
+  sendDefaultPii: false,
+  beforeSend: scrubSentryEvent,
+  beforeBreadcrumb: scrubSentryBreadcrumb,
   integrations: [
     Sentry.replayIntegration({
       maskAllText: true,
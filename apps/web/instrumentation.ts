@@ -3,6 +3,8 @@ import * as Sentry from '@sentry/nextjs';
 export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     await import('./sentry.server.config');
+    const { warnAboutApiAccess } = await import('./lib/api/auth');
+    warnAboutApiAccess();
   }
   if (process.env.NEXT_RUNTIME === 'edge') {
     await import('./sentry.edge.config');
@@ -0,0 +1,42 @@
+import { createHash, timingSafeEqual } from "node:crypto"
+import { PipelineError } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import { ApiError } from "./errors"
+
+const log = createLogger("api-auth")
+
+// an unset API_KEY leaves the API (and the page's own endpoints) open. that is fine in development, but a
+// production server has to say so explicitly with API_OPEN=true, otherwise every request is refused
+const getAccessMode = (): "key" | "open" | "misconfigured" => {
+  if (process.env.API_KEY) return "key"
+  if (process.env.API_OPEN === "true" || process.env.NODE_ENV !== "production") return "open"
+  return "misconfigured"
+}
+
+// log at startup how the API is protected, so an open or refusing server is noticed before the first request
+export const warnAboutApiAccess = () => {
+  const mode = getAccessMode()
+  if (mode === "open") {
+    log.warn("API_KEY is not set, so /api/process and /api/v1 accept requests from anyone")
+  }
+  if (mode === "misconfigured") {
+    log.error("API_KEY is not set in production, so every API request is refused. Set API_KEY, or API_OPEN=true to run without one")
+  }
+}
+
+// hashing first gives both sides the same length, so the comparison takes as long whatever the token is
+const digest = (value: string) => createHash("sha256").update(value).digest()
+
+// require a bearer token when API_KEY is configured; see getAccessMode for a server without one
+export const assertAuthorized = (request: Request) => {
+  const mode = getAccessMode()
+  if (mode === "open") return
+  if (mode === "misconfigured") {
+    throw new PipelineError("configuration_error", "Server configuration error: API_KEY is not set.")
+  }
+
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1] ?? ""
+  if (!timingSafeEqual(digest(token), digest(process.env.API_KEY!))) {
+    throw new ApiError(401, "unauthorized", "Missing or invalid API key.")
+  }
+}
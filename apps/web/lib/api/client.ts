@@ -0,0 +1,52 @@
+import type { PipelineEvent, ProcessImageOptions, ProcessImageResult } from "@/lib/pipeline"
+import type { ApiErrorBody } from "./errors"
+import type { ProcessStreamMessage } from "./stream"
+
+// the bearer header for a server with API_KEY set; the page's key comes from the settings card
+export const authorizationHeaders = (apiKey?: string): Record<string, string> =>
+  (apiKey?.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {})
+
+// the message for a failed API response, pointing at the settings card when the key was refused
+export const readApiError = async (response: Response, fallback: string) => {
+  if (response.status === 401) return "This server needs an API key. Enter it under \"API key\" in the settings."
+  const body = await response.json().catch(() => null) as ApiErrorBody | null
+  return body?.error.message ?? `${fallback} with status ${response.status}.`
+}
+
+// run the pipeline for one image through /api/process, reporting each stage as it arrives.
+// aborting signal closes the connection, which cancels the upstream calls on the server
+export const streamProcessImage = async (
+  imageBase64: string,
+  options: ProcessImageOptions,
+  { apiKey, onEvent, signal }: { apiKey?: string, onEvent: (event: PipelineEvent) => void, signal?: AbortSignal },
+): Promise<ProcessImageResult> => {
+  const response = await fetch("/api/process", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authorizationHeaders(apiKey) },
+    body: JSON.stringify({ image: imageBase64, options }),
+    signal,
+  })
+
+  // validation errors are answered with a plain JSON error before the stream starts
+  if (!response.ok || !response.body) {
+    throw new Error(await readApiError(response, "Processing failed"))
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffered = ""
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += value ?? ""
+
+    const lines = buffered.split("\n")
+    buffered = done ? "" : lines.pop() ?? ""
+    for (const line of lines.filter((line) => line.trim())) {
+      const message = JSON.parse(line) as ProcessStreamMessage
+      if (message.type === "event") onEvent(message.event)
+      if (message.type === "result") return message.result
+      if (message.type === "error") throw new Error(message.error.message)
+    }
+
+    if (done) throw new Error("The server closed the connection before processing finished.")
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { PipelineError, type PipelineErrorCode } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+
+const log = createLogger("api")
+
+export type ApiErrorCode =
+  | PipelineErrorCode
+  | "unauthorized"
+  | "unsupported_media_type"
+  | "payload_too_large"
+  | "invalid_request"
+  | "internal_error"
+
+// the body of every failed API response
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode
+    message: string
+    details?: unknown
+  }
+}
+
+// an error raised while handling an API request, carrying the HTTP status to respond with
+export class ApiError extends Error {
+  status: number
+  code: ApiErrorCode
+  details?: unknown
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+const PIPELINE_ERROR_STATUS: Record<PipelineErrorCode, number> = {
+  configuration_error: 500,
+  unknown_policy: 400,
+  unsupported_image: 415,
+  no_text_detected: 422,
+  ocr_unavailable: 503,
+  detection_unavailable: 503,
+  cancelled: 499, // client closed the request
+}
+
+// the status and body for anything thrown while handling a request, for JSON responses and streamed errors alike
+export const toErrorBody = (error: unknown): { status: number, body: ApiErrorBody } => {
+  if (error instanceof ApiError) {
+    return { status: error.status, body: { error: { code: error.code, message: error.message, details: error.details } } }
+  }
+
+  if (error instanceof PipelineError) {
+    return { status: PIPELINE_ERROR_STATUS[error.code], body: { error: { code: error.code, message: error.message } } }
+  }
+
+  log.error("Unexpected error in API route", { error })
+  return { status: 500, body: { error: { code: "internal_error", message: "An unexpected error occurred on the server." } } }
+}
+
+// convert anything thrown while handling a request into a structured JSON error response
+export const toErrorResponse = (error: unknown) => {
+  const { status, body } = toErrorBody(error)
+  return NextResponse.json<ApiErrorBody>(body, { status })
+}
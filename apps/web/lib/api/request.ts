@@ -0,0 +1,220 @@
+import { z } from "zod"
+import type { PiiData } from "@/lib/pii/types"
+import { RedactionRegionListSchema, RedactionStyleSchema } from "@/lib/redaction/schema"
+import { applyReviewThresholds } from "@/lib/review/thresholds"
+import { TermListSchema } from "@/lib/terms/io"
+import { ApiError } from "./errors"
+
+// uploads (and each rendered page) above this size are rejected before any OCR or rendering runs
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+// pages in one /render request, enough for a long letter or form
+const MAX_RENDER_PAGES = 50
+
+// request bodies are refused above these sizes before they are read, let alone parsed: one base64 image plus
+// options, and a whole /render request (larger documents can be rendered a page at a time)
+const MAX_IMAGE_BODY_BYTES = Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 1024 * 1024
+const MAX_RENDER_BODY_BYTES = 64 * 1024 * 1024
+
+// options shared by every v1 endpoint, sent as JSON (or as a JSON "options" field in multipart uploads)
+const ApiOptionsSchema = z.object({
+  labels: z.array(z.string().min(1)).optional()
+    .describe("Only redact detections with these labels (case-insensitive), defaults to every label."),
+  style: RedactionStyleSchema.optional(),
+  policy: z.string().min(1).optional()
+    .describe("Id of the redaction policy to apply, defaults to PII_POLICY or uk-parking."),
+  terms: TermListSchema.max(500).optional()
+    .describe("Always-redact (deny) and never-redact (allow) terms, literal or regex."),
+  ocrProvider: z.enum(["vision", "tesseract"]).optional(),
+  detectionMode: z.enum(["llm", "rules", "hybrid"]).optional(),
+  visualDetectors: z.array(z.enum(["faces", "signatures", "barcodes"])).optional(),
+  reviewThreshold: z.number().min(0).max(1).optional()
+    .describe("Matches below this confidence are returned with review \"pending\" and left unredacted."),
+  format: z.enum(["png", "jpeg"]).optional()
+    .describe("Output format for /redact, defaults to the input format."),
+  cache: z.boolean().optional()
+    .describe("Set to false so no OCR or detection result from this request is kept on the server."),
+}).strict()
+
+export type ApiOptions = z.infer<typeof ApiOptionsSchema>
+
+const JsonBodySchema = z.object({
+  image: z.string().min(1).describe("The image as base64 or a data URL."),
+  options: ApiOptionsSchema.optional(),
+}).strict()
+
+// /render takes the final redactions instead of detecting them, so the output matches what was reviewed
+const RenderBodySchema = z.object({
+  pages: z.array(z.object({
+    image: z.string().min(1).describe("The original image (or rasterised PDF page) as base64 or a data URL."),
+    piiData: RedactionRegionListSchema.describe("The regions to burn in, as returned by /detect with redacted flags set."),
+    pageSize: z.object({ width: z.number().positive(), height: z.number().positive() }).optional()
+      .describe("PDF page size in points, defaults to the image size."),
+  }).strict()).min(1).max(MAX_RENDER_PAGES),
+  options: z.object({
+    style: RedactionStyleSchema.optional(),
+    format: z.enum(["png", "jpeg", "pdf"]).optional()
+      .describe("Defaults to the input format for one page and PDF for several."),
+  }).strict().optional(),
+}).strict()
+
+export type RenderRequestInput = z.infer<typeof RenderBodySchema>
+
+export type ApiRequestInput = {
+  imageBase64: string
+  options: ApiOptions
+}
+
+const parseOptions = (value: unknown): ApiOptions => {
+  const result = ApiOptionsSchema.safeParse(value ?? {})
+  if (!result.success) {
+    throw new ApiError(400, "invalid_request", "Invalid options.", result.error.flatten())
+  }
+  return result.data
+}
+
+const assertImageSize = (bytes: number) => {
+  if (bytes === 0) {
+    throw new ApiError(400, "invalid_request", "The image is empty.")
+  }
+  if (bytes > MAX_IMAGE_BYTES) {
+    throw new ApiError(413, "payload_too_large", `Images must be ${MAX_IMAGE_BYTES / 1024 / 1024}MB or smaller.`)
+  }
+}
+
+// strip a data URL prefix and check the rest is base64 within the size limit
+const toImageBase64 = (image: string) => {
+  const imageBase64 = image.replace(/^data:[^;,]+;base64,/, "")
+  if (!/^[A-Za-z0-9+/\s]+=*\s*$/.test(imageBase64)) {
+    throw new ApiError(400, "invalid_request", "The image must be base64 encoded.")
+  }
+  assertImageSize(Buffer.byteLength(imageBase64, "base64"))
+  return imageBase64
+}
+
+// the body, refused by its Content-Length when that is over maxBytes and cut off once more than that arrives,
+// so an oversized or chunked upload is never held in memory whole
+const readBody = async (request: Request, maxBytes: number): Promise<Buffer> => {
+  const tooLarge = () => new ApiError(413, "payload_too_large", `Request bodies must be ${Math.floor(maxBytes / 1024 / 1024)}MB or smaller.`)
+  if (Number(request.headers.get("content-length")) > maxBytes) throw tooLarge()
+  if (!request.body) return Buffer.alloc(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+const readJsonBody = async (request: Request, maxBytes: number): Promise<unknown> => {
+  const body = await readBody(request, maxBytes)
+  try {
+    return JSON.parse(body.toString("utf8"))
+  } catch {
+    throw new ApiError(400, "invalid_request", "Could not parse the JSON body.")
+  }
+}
+
+// multipart/form-data with a "file" field and an optional JSON "options" field
+const parseMultipart = async (request: Request): Promise<ApiRequestInput> => {
+  const body = await readBody(request, MAX_IMAGE_BODY_BYTES)
+  const form = await new Response(new Uint8Array(body), { headers: { "Content-Type": request.headers.get("content-type")! } }).formData().catch(() => {
+    throw new ApiError(400, "invalid_request", "Could not parse the multipart body.")
+  })
+
+  const file = form.get("file")
+  if (!(file instanceof File)) {
+    throw new ApiError(400, "invalid_request", "Expected the image in a \"file\" field.")
+  }
+  assertImageSize(file.size)
+
+  const rawOptions = form.get("options")
+  let options: unknown
+  if (typeof rawOptions === "string" && rawOptions.trim()) {
+    try {
+      options = JSON.parse(rawOptions)
+    } catch {
+      throw new ApiError(400, "invalid_request", "The \"options\" field must be JSON.")
+    }
+  }
+
+  return {
+    imageBase64: Buffer.from(await file.arrayBuffer()).toString("base64"),
+    options: parseOptions(options),
+  }
+}
+
+// application/json with the image as base64 (data URLs are accepted too)
+const parseJson = async (request: Request): Promise<ApiRequestInput> => {
+  const body = await readJsonBody(request, MAX_IMAGE_BODY_BYTES)
+
+  const result = JsonBodySchema.safeParse(body)
+  if (!result.success) {
+    throw new ApiError(400, "invalid_request", "Invalid request body.", result.error.flatten())
+  }
+
+  return { imageBase64: toImageBase64(result.data.image), options: result.data.options ?? {} }
+}
+
+// read the image and options from either supported content type
+export const parseApiRequest = async (request: Request): Promise<ApiRequestInput> => {
+  const contentType = request.headers.get("content-type") ?? ""
+
+  if (contentType.startsWith("multipart/form-data")) {
+    return parseMultipart(request)
+  }
+  if (contentType.startsWith("application/json")) {
+    return parseJson(request)
+  }
+
+  throw new ApiError(415, "unsupported_media_type", "Send the image as multipart/form-data or application/json.")
+}
+
+// the pages and final redactions for /render, as JSON. the body size is checked before it is read and the page
+// count before any image is decoded
+export const parseRenderRequest = async (request: Request): Promise<RenderRequestInput> => {
+  if (!(request.headers.get("content-type") ?? "").startsWith("application/json")) {
+    throw new ApiError(415, "unsupported_media_type", "Send the pages as application/json.")
+  }
+
+  const body = await readJsonBody(request, MAX_RENDER_BODY_BYTES)
+  const pages = (body as { pages?: unknown } | null)?.pages
+  if (Array.isArray(pages) && pages.length > MAX_RENDER_PAGES) {
+    throw new ApiError(413, "payload_too_large", `At most ${MAX_RENDER_PAGES} pages can be rendered at once.`)
+  }
+
+  const result = RenderBodySchema.safeParse(body)
+  if (!result.success) {
+    throw new ApiError(400, "invalid_request", "Invalid request body.", result.error.flatten())
+  }
+  if (result.data.pages.length > 1 && result.data.options?.format && result.data.options.format !== "pdf") {
+    throw new ApiError(400, "invalid_request", "Several pages can only be rendered as a PDF.")
+  }
+
+  return {
+    pages: result.data.pages.map((page) => ({ ...page, image: toImageBase64(page.image) })),
+    options: result.data.options,
+  }
+}
+
+// only keep the requested labels marked as redacted, the rest are still reported so callers can see them
+export const applyLabelFilter = (piiData: PiiData[], labels?: string[]) => {
+  if (!labels) return piiData
+  const wanted = new Set(labels.map((label) => label.trim().toLowerCase()))
+  return piiData.map((pii) => ({ ...pii, redacted: wanted.has(pii.label.trim().toLowerCase()) }))
+}
+
+// API callers have no review step, so held back matches are reported as pending and stay unredacted
+export const applyReviewThreshold = (piiData: PiiData[], reviewThreshold?: number) => {
+  if (reviewThreshold === undefined) return piiData
+  return applyReviewThresholds(piiData, { review: reviewThreshold, discard: 0 })
+}
@@ -0,0 +1,10 @@
+import type { PipelineEvent, ProcessImageResult } from "@/lib/pipeline"
+import type { ApiErrorBody } from "./errors"
+
+// one line of the newline-delimited JSON stream from /api/process: stage events, then a result or an error
+export type ProcessStreamMessage =
+  | { type: "event", event: PipelineEvent }
+  | { type: "result", result: ProcessImageResult }
+  | ({ type: "error" } & ApiErrorBody)
+
+export const PROCESS_STREAM_CONTENT_TYPE = "application/x-ndjson"
@@ -0,0 +1,8 @@
+// hex encoded SHA-256 using Web Crypto, available in browsers and Node
+export const sha256Hex = async (data: Blob | ArrayBuffer | string) => {
+  const bytes = typeof data === "string"
+    ? new TextEncoder().encode(data)
+    : data instanceof Blob ? await data.arrayBuffer() : data
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
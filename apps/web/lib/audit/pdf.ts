@@ -0,0 +1,136 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import type { AuditReport } from "./types"
+
+const PAGE_SIZE: [number, number] = [595, 842] // A4 in points
+const MARGIN = 40
+const LINE_HEIGHT = 14
+
+// the standard fonts only cover WinAnsi, so anything else is replaced rather than failing the export
+const toWinAnsi = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+
+// truncate text with an ellipsis to fit a column width
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  const safe = toWinAnsi(text)
+  if (font.widthOfTextAtSize(safe, size) <= maxWidth) return safe
+
+  let fitted = safe
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted}...`
+}
+
+const COLUMNS = [
+  { title: "Page", width: 30 },
+  { title: "Label", width: 110 },
+  { title: "Source", width: 55 },
+  { title: "Match", width: 95 },
+  { title: "Conf.", width: 35 },
+  { title: "Box [x, y, w, h]", width: 100 },
+  { title: "Outcome", width: 90 },
+]
+
+// human readable version of an audit report for FOI and subject-access files
+export const exportAuditReportPdf = async (report: AuditReport): Promise<Blob> => {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.setProducer("RedactThat")
+  pdfDoc.setCreator("RedactThat")
+  pdfDoc.setTitle(`Redaction audit report: ${toWinAnsi(report.input.name)}`)
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  let page: PDFPage = pdfDoc.addPage(PAGE_SIZE)
+  let y = PAGE_SIZE[1] - MARGIN
+
+  const newPageIfNeeded = () => {
+    if (y < MARGIN + LINE_HEIGHT) {
+      page = pdfDoc.addPage(PAGE_SIZE)
+      y = PAGE_SIZE[1] - MARGIN
+    }
+  }
+
+  const writeLine = (text: string, options: { font?: PDFFont, size?: number } = {}) => {
+    newPageIfNeeded()
+    const size = options.size ?? 9
+    page.drawText(fitText(text, options.font ?? font, size, PAGE_SIZE[0] - MARGIN * 2), {
+      x: MARGIN,
+      y,
+      size,
+      font: options.font ?? font,
+    })
+    y -= size + 5
+  }
+
+  const writeRow = (cells: string[], rowFont: PDFFont) => {
+    newPageIfNeeded()
+    let x = MARGIN
+    cells.forEach((cell, index) => {
+      page.drawText(fitText(cell, rowFont, 8, COLUMNS[index].width - 4), { x, y, size: 8, font: rowFont })
+      x += COLUMNS[index].width
+    })
+    y -= LINE_HEIGHT
+  }
+
+  writeLine("Redaction audit report", { font: bold, size: 16 })
+  y -= 6
+  writeLine(`Generated: ${report.generatedAt}`)
+  writeLine(`Reviewer: ${report.reviewer ?? "Not recorded"}`)
+  writeLine(`Policy: ${report.policy ?? "Server default"}`)
+  writeLine(`Input: ${report.input.name} (${report.input.type}, ${report.input.size} bytes)`)
+  writeLine(`Input SHA-256: ${report.input.sha256}`)
+  writeLine(`Output: ${report.output.name} (${report.output.type}, ${report.output.size} bytes)`)
+  writeLine(`Output SHA-256: ${report.output.sha256}`)
+  writeLine(`Rendered: ${report.renderer === "server" ? "on the server" : "in the browser"}`)
+  writeLine(`Detected: ${report.summary.detected}, redacted: ${report.summary.redacted}, left visible: ${report.summary.leftVisible}${report.summary.dismissed ? ` (${report.summary.dismissed} dismissed as noise)` : ""}`)
+  y -= 8
+
+  writeRow(COLUMNS.map((column) => column.title), bold)
+  page.drawLine({
+    start: { x: MARGIN, y: y + LINE_HEIGHT - 3 },
+    end: { x: PAGE_SIZE[0] - MARGIN, y: y + LINE_HEIGHT - 3 },
+    thickness: 0.5,
+    color: rgb(0.6, 0.6, 0.6),
+  })
+
+  report.items.forEach((item) => {
+    writeRow([
+      String(item.page),
+      item.label,
+      item.source ?? "-",
+      item.matchType ?? "-",
+      item.confidence === null ? "-" : item.confidence.toFixed(2),
+      `[${item.bbox.map((value) => Math.round(value)).join(", ")}]`,
+      item.redacted
+        ? `Redacted (${item.style})${item.revealLast ? `, last ${item.revealLast} shown` : ""}${item.review === "accepted" ? ", reviewed" : ""}`
+        : item.review === "rejected" ? "Rejected by reviewer" : item.review === "dismissed" ? "Dismissed as noise" : item.flagged ? "Flagged, left visible" : "Left visible",
+    ], font)
+  })
+  if (report.items.length === 0) {
+    writeLine("No sensitive information was detected or added.")
+  }
+
+  if (report.unlocated.length > 0) {
+    y -= 8
+    writeLine("Detected but not located automatically", { font: bold, size: 10 })
+    report.unlocated.forEach((item) => {
+      writeLine(`Page ${item.page}: ${item.label} (${item.source ?? "unknown source"}), ${item.state === "covered" ? "covered by the reviewer" : "dismissed by the reviewer"}`)
+    })
+  }
+
+  if (report.metadata.length > 0) {
+    y -= 8
+    writeLine("Metadata removed from the output", { font: bold, size: 10 })
+    report.metadata.forEach((item) => {
+      writeLine(`${item.label} (${item.category})${item.treatedAsPii ? ", reported as personal data" : ""}`)
+    })
+  }
+
+  y -= 8
+  writeLine(`Log entry ${report.sequence}, previous hash: ${report.previousHash ?? "none (first in session)"}`, { size: 7 })
+  writeLine(`Report hash: ${report.hash}`, { size: 7 })
+  writeLine("Item text and metadata values are not included, in any form.", { size: 7 })
+
+  const pdfBytes = await pdfDoc.save()
+  return new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" })
+}
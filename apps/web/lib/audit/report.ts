@@ -0,0 +1,102 @@
+import type { RedactionDocument, Renderer } from "@/lib/documents/types"
+import { isPersonalMetadata } from "@/lib/metadata"
+import type { RedactionStyle } from "@/lib/redaction/styles"
+import { sha256Hex } from "./hash"
+import type { AuditFile, AuditItem, AuditMetadataItem, AuditReport, AuditUnlocatedItem } from "./types"
+
+type CreateAuditReportInput = {
+  doc: RedactionDocument
+  output: { name: string, blob: Blob }
+  renderer: Renderer
+  redactionStyle: RedactionStyle // document default, for items without their own style
+  reviewer: string | null
+  metadataAsPii: boolean // personal metadata was reported alongside the detections
+  previous: AuditReport | null // last report in the session log
+}
+
+const describeFile = async (name: string, blob: Blob): Promise<AuditFile> => ({
+  name,
+  type: blob.type || "application/octet-stream",
+  size: blob.size,
+  sha256: await sha256Hex(blob),
+})
+
+// the hash covers every field except itself, in the order the report was built
+const hashReport = (report: Omit<AuditReport, "hash">) => sha256Hex(JSON.stringify(report))
+
+// record what was redacted in a document, chained to the previous report so later edits to the log show up
+export const createAuditReport = async ({ doc, output, renderer, redactionStyle, reviewer, metadataAsPii, previous }: CreateAuditReportInput): Promise<AuditReport> => {
+  const input = await describeFile(doc.file.name, doc.file)
+
+  // no trace of the text itself, not even a hash: the input hash is in the report, and most PII (a postcode, a
+  // date of birth, a card number with known leading digits) is short enough to brute force against any hash of it
+  const items: AuditItem[] = doc.pages.flatMap((page, pageIndex) => page.piiData.map((pii) => ({
+    page: pageIndex + 1,
+    id: pii.id,
+    label: pii.label,
+    bbox: pii.bbox,
+    matchType: pii.matchType ?? null,
+    confidence: pii.confidence ?? null,
+    source: pii.source ?? null,
+    flagged: pii.flagged ?? false,
+    review: pii.review ?? null,
+    redacted: pii.redacted,
+    revealLast: pii.redacted ? pii.revealLast ?? null : null,
+    style: pii.redacted ? (pii.style ?? redactionStyle).mode : null,
+  })))
+
+  const unlocated: AuditUnlocatedItem[] = doc.pages.flatMap((page, pageIndex) => page.unlocatedPii.map((item) => ({
+    page: pageIndex + 1,
+    label: item.label,
+    source: item.source ?? null,
+    state: item.state,
+  })))
+
+  const metadata: AuditMetadataItem[] = (doc.metadata ?? []).map((entry) => ({
+    label: entry.label,
+    category: entry.category,
+    treatedAsPii: metadataAsPii && isPersonalMetadata(entry),
+  }))
+
+  const redacted = items.filter((item) => item.redacted).length
+
+  const report: Omit<AuditReport, "hash"> = {
+    version: 2,
+    sequence: (previous?.sequence ?? 0) + 1,
+    generatedAt: new Date().toISOString(),
+    reviewer,
+    policy: doc.policyId ?? null,
+    input,
+    output: await describeFile(output.name, output.blob),
+    renderer,
+    items,
+    unlocated,
+    metadata,
+    summary: {
+      detected: items.length,
+      redacted,
+      leftVisible: items.length - redacted,
+      dismissed: items.filter((item) => item.review === "dismissed").length,
+    },
+    previousHash: previous?.hash ?? null,
+  }
+
+  return { ...report, hash: await hashReport(report) }
+}
+
+// check every report's hash and its link to the one before; returns the sequence numbers that fail
+export const verifyAuditLog = async (reports: AuditReport[]) => {
+  const failures: number[] = []
+
+  for (const [index, report] of reports.entries()) {
+    const { hash, ...rest } = report
+    const expectedPrevious = index === 0 ? null : reports[index - 1].hash
+    if (hash !== await hashReport(rest) || report.previousHash !== expectedPrevious) {
+      failures.push(report.sequence)
+    }
+  }
+
+  return failures
+}
+
+export const auditLogToJson = (reports: AuditReport[]) => JSON.stringify({ reports }, null, 2)
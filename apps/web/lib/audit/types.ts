@@ -0,0 +1,67 @@
+import type { Renderer } from "@/lib/documents/types"
+import type { MetadataCategory } from "@/lib/metadata"
+import type { PiiSource, ReviewState, UnlocatedState } from "@/lib/pii/types"
+import type { RedactionMode } from "@/lib/redaction/styles"
+
+// a file going into or coming out of a review, identified by its SHA-256
+export type AuditFile = {
+  name: string
+  type: string
+  size: number
+  sha256: string
+}
+
+// one detection and what the reviewer did with it. neither the PII nor a hash of it is written to the report,
+// so the report can be shared without leaking it; the id and bbox tie the entry to the reviewed document
+export type AuditItem = {
+  page: number // 1-based
+  id: number
+  label: string
+  bbox: [number, number, number, number]
+  matchType: string | null
+  confidence: number | null
+  source: PiiSource | null
+  flagged: boolean
+  review: ReviewState | null // set when the match fell below the review or noise threshold and a reviewer had to decide
+  redacted: boolean // false means it was deliberately left visible
+  revealLast: number | null // trailing characters deliberately left readable, e.g. the last 4 card digits
+  style: RedactionMode | null // how it was redacted, null when left visible
+}
+
+// a detection that could not be placed on the image automatically, and how the reviewer dealt with it
+export type AuditUnlocatedItem = {
+  page: number // 1-based
+  label: string
+  source: PiiSource | null
+  state: UnlocatedState // covered by a box the reviewer added, or dismissed as not on the page
+}
+
+// a metadata field found in the input file. it is always removed from the output; treatedAsPii records
+// whether the reviewer had metadata reported as detected personal data
+export type AuditMetadataItem = {
+  label: string
+  category: MetadataCategory
+  treatedAsPii: boolean
+}
+
+export type AuditReport = {
+  version: 2 // 1 also carried a SHA-256 of each item's text, salted only with the published input hash
+  sequence: number // position in the session's log, starting at 1
+  generatedAt: string
+  reviewer: string | null
+  policy: string | null
+  input: AuditFile
+  output: AuditFile
+  renderer: Renderer // what produced the output file
+  items: AuditItem[]
+  unlocated: AuditUnlocatedItem[]
+  metadata: AuditMetadataItem[] // removed from the output
+  summary: {
+    detected: number
+    redacted: number
+    leftVisible: number
+    dismissed: number // left visible because they scored below the noise threshold, included in leftVisible
+  }
+  previousHash: string | null // hash of the previous report in the session, null for the first
+  hash: string // SHA-256 of this report without the hash field
+}
@@ -0,0 +1,22 @@
+// run at most `concurrency` tasks at a time; extra tasks wait in FIFO order
+export const createConcurrencyLimit = (concurrency: number) => {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  const next = () => {
+    active--
+    waiting.shift()?.()
+  }
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+    active++
+    try {
+      return await task()
+    } finally {
+      next()
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type { RedactionDocument } from "@/lib/documents/types"
+
+// summary written next to the redacted files in a batch ZIP
+export const buildBatchManifest = (
+  exported: { doc: RedactionDocument, outputName: string, auditHash?: string }[],
+  skipped: RedactionDocument[],
+) => ({
+  generatedAt: new Date().toISOString(),
+  files: exported.map(({ doc, outputName, auditHash }) => {
+    const piiData = doc.pages.flatMap((page) => page.piiData)
+    const redacted = piiData.filter((pii) => pii.redacted)
+    return {
+      originalName: doc.file.name,
+      outputName,
+      pages: doc.pages.length,
+      ...(doc.policyId && { policy: doc.policyId }),
+      detectedCount: piiData.length,
+      redactedCount: redacted.length,
+      redactedLabels: [...new Set(redacted.map((pii) => pii.label))],
+      metadataRemoved: (doc.metadata ?? []).map((entry) => entry.label),
+      ...(auditHash && { auditHash }), // hash of this file's entry in audit-log.json
+    }
+  }),
+  skipped: skipped.map((doc) => ({
+    originalName: doc.file.name,
+    status: doc.status,
+    ...(doc.error && { error: doc.error }),
+  })),
+})
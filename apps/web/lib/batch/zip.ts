@@ -0,0 +1,31 @@
+import JSZip from "jszip"
+
+export type ZipEntry = {
+  name: string
+  blob: Blob
+}
+
+// make file names unique inside the archive, e.g. "scan.png", "scan (2).png"
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name
+  const dot = name.lastIndexOf(".")
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ""
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base} (${i})${extension}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+// bundle redacted files plus a manifest.json; returns the archive and the names actually used
+export const createZip = async (entries: ZipEntry[], buildManifest: (names: string[]) => unknown) => {
+  const zip = new JSZip()
+  const used = new Set<string>(["manifest.json"])
+  const names = entries.map((entry) => uniqueName(entry.name, used))
+
+  entries.forEach((entry, index) => zip.file(names[index], entry.blob))
+  zip.file("manifest.json", JSON.stringify(buildManifest(names), null, 2))
+
+  return zip.generateAsync({ type: "blob" })
+}
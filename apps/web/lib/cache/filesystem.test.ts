@@ -0,0 +1,55 @@
+import assert from "node:assert/strict"
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { createFileStore, sweepExpiredFiles } from "./filesystem"
+
+describe("filesystem cache", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "cache-test-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("keeps entries until they expire", async () => {
+    const store = createFileStore(directory)
+    await store.set("ocr:a", { text: "Jane Smith" }, 60)
+    assert.deepEqual(await store.get("ocr:a"), { text: "Jane Smith" })
+
+    await store.set("ocr:b", { text: "old" }, -1)
+    assert.equal(await store.get("ocr:b"), undefined)
+    assert.equal((await readdir(directory)).length, 1)
+  })
+
+  it("sweeps expired, unreadable and abandoned files nobody reads again", async () => {
+    await writeFile(join(directory, "fresh.json"), JSON.stringify({ value: "kept", expiresAt: Date.now() + 60_000 }))
+    await writeFile(join(directory, "expired.json"), JSON.stringify({ value: "PII", expiresAt: Date.now() - 1000 }))
+    await writeFile(join(directory, "broken.json"), "{")
+    await writeFile(join(directory, "abandoned.json.1.tmp"), "{")
+    await utimes(join(directory, "abandoned.json.1.tmp"), new Date(0), new Date(0))
+    await writeFile(join(directory, "writing.json.2.tmp"), "{")
+
+    assert.equal(await sweepExpiredFiles(directory), 3)
+    assert.deepEqual((await readdir(directory)).sort(), ["fresh.json", "writing.json.2.tmp"])
+  })
+
+  it("sweeps entries left by a previous run when it is created", async () => {
+    await writeFile(join(directory, "expired.json"), JSON.stringify({ value: "PII", expiresAt: Date.now() - 1000 }))
+    createFileStore(directory)
+
+    // the sweep runs in the background
+    for (let attempt = 0; attempt < 50 && (await readdir(directory)).length > 0; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    assert.deepEqual(await readdir(directory), [])
+  })
+
+  it("treats a missing directory as empty", async () => {
+    assert.equal(await sweepExpiredFiles(join(directory, "missing")), 0)
+  })
+})
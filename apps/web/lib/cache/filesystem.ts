@@ -0,0 +1,92 @@
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createLogger } from "@/lib/logging"
+import type { CacheStore } from "./types"
+
+const log = createLogger("cache")
+
+// reads only remove the entry they hit, so the rest are swept when the store is created and then at most this
+// often, on a write
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+// a temporary file older than this belongs to a write that never finished
+const STALE_TEMPORARY_MS = 60 * 1000
+
+// delete every expired or unreadable entry (and abandoned temporary file) in the directory, returning how many
+// files went. entries hold OCR text and PII, so they must not outlive their TTL just because nobody asked again
+export const sweepExpiredFiles = async (directory: string) => {
+  let names: string[]
+  try {
+    names = await readdir(directory)
+  } catch {
+    // nothing has been written yet
+    return 0
+  }
+
+  const now = Date.now()
+  let removed = 0
+  // one file at a time, so a large cache does not open every file at once
+  for (const name of names) {
+    const path = join(directory, name)
+    try {
+      if (name.endsWith(".tmp")) {
+        if (now - (await stat(path)).mtimeMs < STALE_TEMPORARY_MS) continue
+      } else if (name.endsWith(".json")) {
+        const expiresAt = await readFile(path, "utf8").then((content) => JSON.parse(content).expiresAt).catch(() => 0)
+        if (expiresAt > now) continue
+      } else {
+        continue
+      }
+      await rm(path, { force: true })
+      removed++
+    } catch {
+      // removed by another sweep or a read in the meantime
+    }
+  }
+  return removed
+}
+
+// one JSON file per entry, for self-hosted servers that want results to survive a restart
+export const createFileStore = (directory = process.env.CACHE_DIR ?? join(tmpdir(), "redact-that-cache")): CacheStore => {
+  // keys can contain characters that are not valid in file names, so files are named by their hash
+  const pathFor = (key: string) => join(directory, `${createHash("sha256").update(key).digest("hex")}.json`)
+
+  let lastSweep = 0
+  const sweepIfDue = () => {
+    if (Date.now() - lastSweep < SWEEP_INTERVAL_MS) return
+    lastSweep = Date.now()
+    sweepExpiredFiles(directory)
+      .then((removed) => log.debug("Swept the cache directory", { removed }))
+      .catch((error) => log.warn("Cache sweep failed", { error }))
+  }
+  // entries left by a previous run
+  sweepIfDue()
+
+  return {
+    name: "filesystem",
+    get: async (key) => {
+      try {
+        const { value, expiresAt } = JSON.parse(await readFile(pathFor(key), "utf8"))
+        if (expiresAt > Date.now()) return value
+        await rm(pathFor(key), { force: true })
+      } catch {
+        // missing or unreadable entries are a miss
+      }
+      return undefined
+    },
+    set: async (key, value, ttlSeconds) => {
+      await mkdir(directory, { recursive: true, mode: 0o700 })
+      // write then rename, so a reader never sees half a file
+      const path = pathFor(key)
+      const temporary = `${path}.${process.pid}.tmp`
+      await writeFile(temporary, JSON.stringify({ value, expiresAt: Date.now() + ttlSeconds * 1000 }), { mode: 0o600 })
+      await rename(temporary, path)
+      sweepIfDue()
+    },
+    delete: async (key) => {
+      await rm(pathFor(key), { force: true })
+    },
+  }
+}
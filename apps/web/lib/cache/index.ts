@@ -0,0 +1,85 @@
+import { createHash } from "node:crypto"
+import { PipelineError } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import { createFileStore } from "./filesystem"
+import { createMemoryStore } from "./memory"
+import type { CacheStore, CacheStoreName } from "./types"
+
+export type { CacheStore, CacheStoreName } from "./types"
+
+const log = createLogger("cache")
+
+// results hold OCR text and PII, so they are kept for an hour unless CACHE_TTL_SECONDS says otherwise
+const DEFAULT_TTL_SECONDS = 60 * 60
+
+const noCacheStore: CacheStore = {
+  name: "none",
+  get: async () => undefined,
+  set: async () => {},
+  delete: async () => {},
+}
+
+const CACHE_STORES: Record<CacheStoreName, () => CacheStore> = {
+  memory: createMemoryStore,
+  filesystem: () => createFileStore(),
+  none: () => noCacheStore,
+}
+
+const isCacheStoreName = (name: string): name is CacheStoreName =>
+  Object.prototype.hasOwnProperty.call(CACHE_STORES, name)
+
+let store: CacheStore | undefined
+
+// the store picked by CACHE_STORE ("memory" by default), created once per server process
+export const getCacheStore = (): CacheStore => {
+  if (store) return store
+  const requested = process.env.CACHE_STORE ?? "memory"
+  if (!isCacheStoreName(requested)) {
+    throw new PipelineError("configuration_error", `Server configuration error: Unknown cache store "${requested}".`)
+  }
+  store = CACHE_STORES[requested]()
+  return store
+}
+
+// use a different store, e.g. a shared one when running several instances
+export const setCacheStore = (next: CacheStore) => {
+  store = next
+}
+
+const getTtlSeconds = () => {
+  const ttl = Number(process.env.CACHE_TTL_SECONDS)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS
+}
+
+// hash of everything a result depends on, so keys never contain the text or image itself
+export const hashCacheKey = (...parts: (string | Buffer)[]) => {
+  const hash = createHash("sha256")
+  parts.forEach((part) => hash.update(part).update("\0"))
+  return hash.digest("hex")
+}
+
+// return the cached result for a key or compute and keep it. with enabled false nothing is read or written,
+// for callers that do not want their documents retained. a failing store never fails the request
+export const withCache = async <T>(namespace: string, key: string, enabled: boolean, compute: () => Promise<T>): Promise<T> => {
+  if (!enabled) return compute()
+
+  const cache = getCacheStore()
+  const fullKey = `${namespace}:${key}`
+  try {
+    const cached = await cache.get(fullKey)
+    if (cached !== undefined) {
+      log.debug("Cache hit", { namespace, store: cache.name })
+      return cached as T
+    }
+  } catch (error) {
+    log.warn("Cache read failed", { namespace, store: cache.name, error })
+  }
+
+  const value = await compute()
+  try {
+    await cache.set(fullKey, value, getTtlSeconds())
+  } catch (error) {
+    log.warn("Cache write failed", { namespace, store: cache.name, error })
+  }
+  return value
+}
@@ -0,0 +1,32 @@
+import type { CacheStore } from "./types"
+
+// entries kept per server process; the oldest go first once the limit is reached
+const MAX_ENTRIES = 500
+
+// in-process store, the default. lost on restart and not shared between serverless instances
+export const createMemoryStore = (): CacheStore => {
+  const entries = new Map<string, { value: unknown, expiresAt: number }>()
+
+  return {
+    name: "memory",
+    get: async (key) => {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.value
+    },
+    set: async (key, value, ttlSeconds) => {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+      while (entries.size > MAX_ENTRIES) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+    delete: async (key) => {
+      entries.delete(key)
+    },
+  }
+}
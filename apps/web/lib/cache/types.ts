@@ -0,0 +1,10 @@
+// there is deliberately no SQLite store: it would need a native driver, see the README
+export type CacheStoreName = "memory" | "filesystem" | "none"
+
+// somewhere to keep OCR and detection results between requests. values are plain JSON
+export type CacheStore = {
+  name: CacheStoreName
+  get: (key: string) => Promise<unknown | undefined>
+  set: (key: string, value: unknown, ttlSeconds: number) => Promise<void>
+  delete: (key: string) => Promise<void>
+}
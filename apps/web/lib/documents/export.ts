@@ -0,0 +1,104 @@
+import { authorizationHeaders, readApiError } from "@/lib/api/client"
+import { stripBlobMetadata } from "@/lib/metadata"
+import { buildImagePdf } from "@/lib/pdf/build"
+import { exportRedactedPdf } from "@/lib/pdf/export"
+import type { PiiData } from "@/lib/pii/types"
+import { renderRedactedImage, type RedactionRegion } from "@/lib/redaction/render"
+import type { RedactionStyle } from "@/lib/redaction/styles"
+import type { RedactionDocument, Renderer } from "./types"
+
+export type RenderedDocument = { blob: Blob, renderer: Renderer }
+
+// keep the original file name; images are re-encoded in their original format, PDFs stay PDFs
+export const getOutputFileName = (doc: RedactionDocument) => {
+  if (doc.sourceType === "pdf") return doc.file.name
+  if (doc.file.type === "image/jpeg") return doc.file.name.replace(/\.(jpe?g|png)$/i, "") + ".jpg"
+  return doc.file.name.replace(/\.(jpe?g|png)$/i, "") + ".png"
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image."))), type, 0.95)
+})
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "")
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(blob)
+})
+
+// only what the renderer needs, so the detected text is not sent back to the server
+const toRenderRegions = (piiData: PiiData[]): RedactionRegion[] => piiData
+  .filter((pii) => pii.redacted && pii.vertices && pii.vertices.length > 0)
+  .map(({ redacted, vertices, label, style, textAngle }) => ({ redacted, vertices, label, style, textAngle }))
+
+// render a document with all its redactions burned in
+export const renderRedactedDocument = async (doc: RedactionDocument, redactionStyle: RedactionStyle): Promise<Blob> => {
+  if (doc.sourceType === "pdf") {
+    // re-render every page off screen so pages that are not currently displayed are included
+    const exportPages = await Promise.all(doc.pages.map(async (page) => ({
+      canvas: await renderRedactedImage(page.imageSrc, page.piiData, page.imageDimensions, redactionStyle),
+      pageSize: page.pageSize ?? page.imageDimensions ?? { width: 595, height: 842 },
+    })))
+    return exportRedactedPdf(exportPages)
+  }
+
+  const [page] = doc.pages
+  const canvas = await renderRedactedImage(page.imageSrc, page.piiData, page.imageDimensions, redactionStyle)
+  // canvas encoders do not copy the upload's EXIF, but the output is sanitised explicitly so no encoder can leak it
+  return stripBlobMetadata(await canvasToBlob(canvas, doc.file.type === "image/jpeg" ? "image/jpeg" : "image/png"))
+}
+
+// render a document on the server from the original pixels and the reviewed PiiData, so the file is the same
+// whichever browser asks for it. this goes through /api/v1/render with the page's API key, like any other caller.
+// PDF pages are rendered one by one, to stay under the per-image limit, and assembled like the browser export
+export const renderRedactedDocumentOnServer = async (doc: RedactionDocument, redactionStyle: RedactionStyle, apiKey?: string): Promise<Blob> => {
+  const renderPage = async (image: Blob, piiData: PiiData[], format: "png" | "jpeg") => {
+    const response = await fetch("/api/v1/render", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authorizationHeaders(apiKey) },
+      body: JSON.stringify({
+        pages: [{ image: await blobToBase64(image), piiData: toRenderRegions(piiData) }],
+        options: { format, style: redactionStyle },
+      }),
+    })
+    if (!response.ok) throw new Error(await readApiError(response, "Rendering failed"))
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  if (doc.sourceType === "pdf") {
+    const pages = []
+    for (const page of doc.pages) {
+      const image = await fetch(page.imageSrc).then((res) => res.blob())
+      pages.push({
+        png: await renderPage(image, page.piiData, "png"),
+        pageSize: page.pageSize ?? page.imageDimensions ?? { width: 595, height: 842 },
+      })
+    }
+    return new Blob([new Uint8Array(await buildImagePdf(pages))], { type: "application/pdf" })
+  }
+
+  const format = doc.file.type === "image/jpeg" ? "jpeg" : "png"
+  const output = await renderPage(doc.file, doc.pages[0].piiData, format)
+  return new Blob([output], { type: `image/${format}` })
+}
+
+// downloads are rendered on the server; the browser canvas is only used when the server cannot be reached
+export const renderDownload = async (doc: RedactionDocument, redactionStyle: RedactionStyle, apiKey?: string): Promise<RenderedDocument> => {
+  try {
+    return { blob: await renderRedactedDocumentOnServer(doc, redactionStyle, apiKey), renderer: "server" }
+  } catch (error) {
+    console.error(`Server rendering failed for ${doc.file.name}, rendering in the browser instead:`, error)
+    return { blob: await renderRedactedDocument(doc, redactionStyle), renderer: "browser" }
+  }
+}
+
+// trigger a browser download for a blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.download = fileName
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,20 @@
+import type { PipelineEvent } from "@/lib/pipeline"
+
+export const WAITING_MESSAGE = "Waiting for other pages..."
+export const UPLOADING_MESSAGE = "Uploading..."
+
+// what to tell the reviewer after each stage of the server pipeline, i.e. what it is working on next
+export const describePipelineEvent = (event: PipelineEvent) => {
+  switch (event.stage) {
+    case "uploaded":
+      return "Reading the text..."
+    case "ocr":
+      return `Read ${event.wordCount} word${event.wordCount === 1 ? "" : "s"}, looking for personal information...`
+    case "partial":
+      return `Showing ${event.piiData.length} rule-based match${event.piiData.length === 1 ? "" : "es"} while AI detection finishes...`
+    case "classified":
+      return `Found ${event.candidateCount} candidate${event.candidateCount === 1 ? "" : "s"}, placing them on the page...`
+    case "mapped":
+      return `Placed ${event.locatedCount} item${event.locatedCount === 1 ? "" : "s"}, finishing up...`
+  }
+}
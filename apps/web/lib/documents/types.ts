@@ -0,0 +1,37 @@
+import type { AuditReport } from "@/lib/audit/types"
+import type { MetadataEntry } from "@/lib/metadata"
+import type { PiiData, UnlocatedPii, WordInfo } from "@/lib/pii/types"
+import type { ImageDimensions } from "@/lib/redaction/transform"
+
+export type SourceType = "image" | "pdf"
+
+// queued: waiting for a slot, needs-review: detection finished but nobody has checked it yet
+export type DocumentStatus = "queued" | "processing" | "needs-review" | "done" | "failed"
+
+// which renderer burned the redactions into a download: the server by default, the browser canvas as a fallback
+export type Renderer = "server" | "browser"
+
+// a single page under review; images are a one-page document
+export type DocumentPage = {
+  imageSrc: string
+  piiData: PiiData[]
+  unlocatedPii: UnlocatedPii[] // detected in the text but not found on the image
+  words: WordInfo[] // OCR words, searched when covering unlocated items by hand
+  warnings: string[] // set when a detector was unavailable and the results are partial
+  progress?: string // what the server is doing while the page is processed, cleared when it finishes
+  imageDimensions: ImageDimensions | null // dimensions the server processed, set once detection finishes
+  pageSize?: { width: number, height: number } // original PDF page size in points
+}
+
+// one uploaded file and its review state
+export type RedactionDocument = {
+  id: string
+  file: File
+  sourceType: SourceType
+  pages: DocumentPage[]
+  status: DocumentStatus
+  policyId?: string // redaction policy the file was processed with
+  metadata?: MetadataEntry[] // EXIF, GPS and document information in the upload; never copied to downloads
+  auditReport?: AuditReport // report for the most recent download
+  error?: string
+}
@@ -0,0 +1,28 @@
+// failures the processing pipeline raises on purpose, so callers can tell them apart from crashes
+// ocr_unavailable and detection_unavailable mean an upstream service kept failing after retries, not that
+// the document is clean. cancelled means the caller gave up and aborted the request
+export type PipelineErrorCode =
+  | "configuration_error"
+  | "unknown_policy"
+  | "unsupported_image"
+  | "no_text_detected"
+  | "ocr_unavailable"
+  | "detection_unavailable"
+  | "cancelled"
+
+export class PipelineError extends Error {
+  code: PipelineErrorCode
+
+  constructor(code: PipelineErrorCode, message: string) {
+    super(message)
+    this.name = "PipelineError"
+    this.code = code
+  }
+}
+
+// stop work for a request the caller has abandoned
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new PipelineError("cancelled", "Processing was cancelled.")
+  }
+}
@@ -0,0 +1,103 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+import sharp from "sharp"
+import { z } from "zod"
+import type { OcrResult } from "@/lib/ocr"
+import { TermListSchema } from "@/lib/terms/io"
+import type { Fixture, ModelRecording } from "./types"
+
+// files in a fixture directory, next to an optional image
+const FIXTURE_FILE = "fixture.json"
+const OCR_FILE = "ocr.json"
+const MODEL_FILE = "model.json"
+
+const BoxSchema = z.tuple([z.number(), z.number(), z.number().positive(), z.number().positive()])
+
+const FixtureFileSchema = z.object({
+  description: z.string().optional(),
+  image: z.string().optional().describe("Image file in the fixture directory. Leave out to run on recorded OCR alone."),
+  size: z.object({ width: z.number().int().positive(), height: z.number().int().positive() }).optional()
+    .describe("Upright image size, required without an image."),
+  options: z.object({
+    policy: z.string().optional(),
+    detectionMode: z.enum(["llm", "rules", "hybrid"]).optional(),
+    terms: TermListSchema.optional(),
+    visualDetectors: z.array(z.enum(["faces", "signatures", "barcodes"])).optional(),
+  }).strict().default({}),
+  expected: z.array(z.object({ label: z.string().min(1), text: z.string().optional(), box: BoxSchema })),
+}).strict().refine((fixture) => fixture.image || fixture.size, "A fixture needs an image or a size.")
+
+const OcrFileSchema = z.object({
+  fullText: z.string(),
+  words: z.array(z.object({
+    text: z.string(),
+    boundingBox: z.any(),
+    symbols: z.array(z.object({ text: z.string(), boundingBox: z.any() })).optional(),
+  })),
+  paragraphStarts: z.array(z.number().int().nonnegative()).optional(),
+})
+
+const ModelFileSchema = z.object({
+  model: z.string().min(1),
+  responses: z.record(z.string()),
+})
+
+const readJson = <T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T => {
+  const result = schema.safeParse(JSON.parse(readFileSync(path, "utf8")))
+  if (!result.success) {
+    throw new Error(`${path} is not valid: ${result.error.issues.map((issue) => `${issue.path.join(".") || "file"}: ${issue.message}`).join("; ")}`)
+  }
+  return result.data
+}
+
+const readOptionalJson = <T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+  existsSync(path) ? readJson(path, schema) : undefined
+
+// stands in for the image when a fixture only has recorded OCR: the pipeline reads the page size from it
+const createBlankPage = ({ width, height }: { width: number, height: number }) =>
+  sharp({ create: { width, height, channels: 3, background: "#ffffff" } }).png().toBuffer()
+
+export const loadFixture = async (dir: string, name: string): Promise<Fixture> => {
+  const fixtureDir = join(dir, name)
+  const file = readJson(join(fixtureDir, FIXTURE_FILE), FixtureFileSchema)
+
+  return {
+    name,
+    dir: fixtureDir,
+    description: file.description,
+    image: file.image ? readFileSync(join(fixtureDir, file.image)) : await createBlankPage(file.size!),
+    // visual detectors only run when a fixture asks for them, since they need a real image
+    options: { ...file.options, visualDetectors: file.options.visualDetectors ?? [], cache: false },
+    expected: file.expected,
+    ocr: readOptionalJson(join(fixtureDir, OCR_FILE), OcrFileSchema) as OcrResult | undefined,
+    model: readOptionalJson(join(fixtureDir, MODEL_FILE), ModelFileSchema),
+  }
+}
+
+// every directory under dir with a fixture.json, in name order; names narrows it to those fixtures
+export const loadFixtures = async (dir: string, names: string[] = []): Promise<Fixture[]> => {
+  const available = readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(dir, entry.name, FIXTURE_FILE)))
+    .map((entry) => entry.name)
+    .sort()
+
+  const unknown = names.filter((name) => !available.includes(name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown fixture: ${unknown.join(", ")}`)
+  }
+
+  return Promise.all((names.length > 0 ? names : available).map((name) => loadFixture(dir, name)))
+}
+
+const writeJson = (path: string, value: unknown) => writeFileSync(path, `${JSON.stringify(value, null, 2)}\n`)
+
+// save what the real providers returned, so later runs can replay it without API keys
+export const saveRecordings = (fixture: Fixture, { ocr, model }: { ocr?: OcrResult, model?: ModelRecording }) => {
+  if (ocr) {
+    // character boxes are kept: mapping uses them to redact part of a word
+    writeJson(join(fixture.dir, OCR_FILE), ocr)
+  }
+  if (model && Object.keys(model.responses).length > 0) {
+    writeJson(join(fixture.dir, MODEL_FILE), model)
+  }
+}
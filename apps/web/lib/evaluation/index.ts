@@ -0,0 +1,96 @@
+import { getOcrProvider, setOcrProvider, type OcrResult } from "@/lib/ocr"
+import { getClassifierModel, setClassifierModel } from "@/lib/pii/models"
+import { processImage } from "@/lib/pipeline"
+import { addCounts, matchDetections, toMetrics, type LabelCounts } from "./metrics"
+import { createModelRecorder, createOcrRecorder, createRecordedOcrProvider, createReplayModel } from "./providers"
+import type { EvaluationReport, Fixture, FixtureResult, ModelRecording } from "./types"
+
+export type { EvaluationReport, ExpectedPii, Fixture, FixtureResult, LabelMetrics, MetricChange, ModelRecording } from "./types"
+export { loadFixtures, saveRecordings } from "./fixtures"
+export { compareReports, formatReport, isRegression } from "./report"
+
+// a detection counts when it overlaps the expected box by at least half
+export const DEFAULT_IOU_THRESHOLD = 0.5
+
+// fixtures without model.json are replayed as this model, so every prompt shows up as missing
+const DEFAULT_RECORDED_MODEL = "openai:gpt-4o"
+
+export type FixtureRun = {
+  result: FixtureResult
+  counts: Record<string, LabelCounts>
+  recordings: { ocr?: OcrResult, model?: ModelRecording }
+}
+
+// run the pipeline on one fixture and score it. by default OCR and the model are replayed from the fixture's
+// recordings, so nothing leaves the machine; with record the configured providers run and what they return
+// is kept for saving
+export const evaluateFixture = async (fixture: Fixture, { iouThreshold, record }: { iouThreshold: number, record: boolean }): Promise<FixtureRun> => {
+  const missing: string[] = []
+  const recordings: FixtureRun["recordings"] = {}
+
+  if (record) {
+    setOcrProvider(createOcrRecorder(getOcrProvider(fixture.options.ocrProvider), (ocr) => {
+      recordings.ocr = ocr
+    }))
+    if (fixture.options.detectionMode !== "rules") {
+      const classifier = getClassifierModel()
+      recordings.model = { model: classifier.id, responses: {} }
+      setClassifierModel(createModelRecorder(classifier, recordings.model))
+    }
+  } else {
+    setOcrProvider(fixture.ocr && createRecordedOcrProvider(fixture.ocr))
+    setClassifierModel(createReplayModel(fixture.model ?? { model: DEFAULT_RECORDED_MODEL, responses: {} }, missing))
+  }
+
+  try {
+    const result = await processImage(fixture.image.toString("base64"), fixture.options)
+    const counts = matchDetections(fixture.expected, result.piiData, iouThreshold)
+
+    return {
+      result: {
+        name: fixture.name,
+        metrics: toMetrics(addCounts(...Object.values(counts))),
+        unlocated: result.unlocatedPii.length,
+        missingRecordings: missing.length,
+        warnings: result.warnings.map((warning) => warning.message),
+      },
+      counts,
+      recordings,
+    }
+  } catch (error) {
+    throw new Error(`Fixture "${fixture.name}" failed: ${error instanceof Error ? error.message : String(error)}`)
+  } finally {
+    setOcrProvider()
+    setClassifierModel()
+  }
+}
+
+// score every fixture one after the other (the providers are swapped per fixture) and total the counts per label
+export const runEvaluation = async (
+  fixtures: Fixture[],
+  { iouThreshold = DEFAULT_IOU_THRESHOLD, record = false, onFixture }: {
+    iouThreshold?: number
+    record?: boolean
+    onFixture?: (fixture: Fixture, run: FixtureRun) => void
+  } = {},
+): Promise<EvaluationReport> => {
+  const labelCounts: Record<string, LabelCounts[]> = {}
+  const fixtureResults: FixtureResult[] = []
+
+  for (const fixture of fixtures) {
+    const run = await evaluateFixture(fixture, { iouThreshold, record })
+    onFixture?.(fixture, run)
+    fixtureResults.push(run.result)
+    Object.entries(run.counts).forEach(([label, counts]) => {
+      (labelCounts[label] ??= []).push(counts)
+    })
+  }
+
+  const labels = Object.fromEntries(Object.keys(labelCounts).sort().map((label) => [label, toMetrics(addCounts(...labelCounts[label]))]))
+  return {
+    iouThreshold,
+    labels,
+    overall: toMetrics(addCounts(...Object.values(labelCounts).flat())),
+    fixtures: fixtureResults,
+  }
+}
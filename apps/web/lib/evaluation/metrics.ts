@@ -0,0 +1,85 @@
+import type { PiiData } from "@/lib/pii/types"
+import type { ExpectedPii, LabelMetrics } from "./types"
+
+type Box = [number, number, number, number]
+
+// running totals for one label, turned into LabelMetrics once every fixture is counted
+export type LabelCounts = {
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  iouSum: number
+}
+
+const emptyCounts = (): LabelCounts => ({ truePositives: 0, falsePositives: 0, falseNegatives: 0, iouSum: 0 })
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase()
+
+// intersection over union of two [x, y, width, height] boxes
+export const boxIou = ([ax, ay, aw, ah]: Box, [bx, by, bw, bh]: Box) => {
+  const width = Math.min(ax + aw, bx + bw) - Math.max(ax, bx)
+  const height = Math.min(ay + ah, by + bh) - Math.max(ay, by)
+  if (width <= 0 || height <= 0) return 0
+
+  const intersection = width * height
+  return intersection / (aw * ah + bw * bh - intersection)
+}
+
+// pair detections with expected boxes of the same label, best overlap first, counting a pair only when its
+// IoU reaches the threshold. unpaired detections are false positives and unpaired expected boxes misses
+export const matchDetections = (expected: ExpectedPii[], detected: PiiData[], iouThreshold: number) => {
+  const counts: Record<string, LabelCounts> = {}
+  const labelNames = new Map<string, string>()
+  const countsFor = (label: string) => {
+    const key = normalizeLabel(label)
+    if (!labelNames.has(key)) labelNames.set(key, label.trim())
+    return (counts[labelNames.get(key)!] ??= emptyCounts())
+  }
+
+  const pairs = expected.flatMap((truth, truthIndex) => detected.flatMap((pii, detectedIndex) => {
+    if (normalizeLabel(pii.label) !== normalizeLabel(truth.label)) return []
+    const iou = boxIou(truth.box, pii.bbox)
+    return iou >= iouThreshold ? [{ truthIndex, detectedIndex, iou }] : []
+  })).sort((a, b) => b.iou - a.iou)
+
+  const pairedTruths = new Set<number>()
+  const pairedDetections = new Set<number>()
+  for (const { truthIndex, detectedIndex, iou } of pairs) {
+    if (pairedTruths.has(truthIndex) || pairedDetections.has(detectedIndex)) continue
+    pairedTruths.add(truthIndex)
+    pairedDetections.add(detectedIndex)
+
+    const labelCounts = countsFor(expected[truthIndex].label)
+    labelCounts.truePositives++
+    labelCounts.iouSum += iou
+  }
+
+  expected.forEach((truth, index) => {
+    const labelCounts = countsFor(truth.label)
+    if (!pairedTruths.has(index)) labelCounts.falseNegatives++
+  })
+  detected.forEach((pii, index) => {
+    const labelCounts = countsFor(pii.label)
+    if (!pairedDetections.has(index)) labelCounts.falsePositives++
+  })
+
+  return counts
+}
+
+export const addCounts = (...all: LabelCounts[]): LabelCounts => all.reduce((total, counts) => ({
+  truePositives: total.truePositives + counts.truePositives,
+  falsePositives: total.falsePositives + counts.falsePositives,
+  falseNegatives: total.falseNegatives + counts.falseNegatives,
+  iouSum: total.iouSum + counts.iouSum,
+}), emptyCounts())
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? null : numerator / denominator)
+
+export const toMetrics = ({ truePositives, falsePositives, falseNegatives, iouSum }: LabelCounts): LabelMetrics => ({
+  truePositives,
+  falsePositives,
+  falseNegatives,
+  precision: ratio(truePositives, truePositives + falsePositives),
+  recall: ratio(truePositives, truePositives + falseNegatives),
+  meanIou: ratio(iouSum, truePositives),
+})
@@ -0,0 +1,46 @@
+import type { OcrProvider, OcrResult } from "@/lib/ocr"
+import { getModelProfile, type ClassifierModel } from "@/lib/pii/models"
+import { createRecordingLanguageModel, createReplayLanguageModel } from "@/lib/recording"
+import type { ModelRecording } from "./types"
+
+// OCR that returns the recorded result for any image
+export const createRecordedOcrProvider = (ocr: OcrResult): OcrProvider => ({
+  name: "vision",
+  recognize: async () => ocr,
+})
+
+// wrap an OCR provider to keep what it returns
+export const createOcrRecorder = (provider: OcrProvider, onResult: (ocr: OcrResult) => void): OcrProvider => ({
+  name: provider.name,
+  recognize: async (imageBase64, signal) => {
+    const ocr = await provider.recognize(imageBase64, signal)
+    onResult(ocr)
+    return ocr
+  },
+})
+
+// a stand-in for the recorded model that answers each prompt with what the model said to it. prompts with no
+// recording are collected in missing and fail like an unavailable model would
+export const createReplayModel = (recording: ModelRecording, missing: string[]): ClassifierModel => {
+  const modelName = recording.model.slice(recording.model.indexOf(":") + 1)
+  const profile = getModelProfile(modelName)
+
+  const model = createReplayLanguageModel({ provider: "recording", modelId: modelName, structuredOutputs: profile.structuredOutputs }, async (key) => {
+    const text = recording.responses[key]
+    if (text === undefined) {
+      missing.push(key)
+      throw new Error("No recorded answer for this prompt.")
+    }
+    return text
+  })
+
+  return { id: recording.model, model, profile }
+}
+
+// wrap the configured model to keep each raw answer under its prompt's key
+export const createModelRecorder = (classifier: ClassifierModel, recording: ModelRecording): ClassifierModel => ({
+  ...classifier,
+  model: createRecordingLanguageModel(classifier.model, (key, text) => {
+    recording.responses[key] = text
+  }),
+})
@@ -0,0 +1,70 @@
+import type { EvaluationReport, LabelMetrics, MetricChange } from "./types"
+
+const METRICS = ["precision", "recall", "meanIou"] as const
+
+// smaller moves are rounding, not a change
+const TOLERANCE = 0.0005
+
+// every metric that moved since the baseline, for the labels both reports have plus the overall figures.
+// a label that is new or gone is reported through its counts in the table instead
+export const compareReports = (current: EvaluationReport, baseline: EvaluationReport): MetricChange[] => {
+  const compare = (label: string | null, now: LabelMetrics, before: LabelMetrics) =>
+    METRICS.flatMap((metric): MetricChange[] => {
+      const value = now[metric]
+      const previous = before[metric]
+      if (value === null || previous === null || Math.abs(value - previous) < TOLERANCE) return []
+      return [{ label, metric, baseline: previous, current: value }]
+    })
+
+  return [
+    ...compare(null, current.overall, baseline.overall),
+    ...Object.entries(current.labels).flatMap(([label, metrics]) =>
+      baseline.labels[label] ? compare(label, metrics, baseline.labels[label]) : []),
+  ]
+}
+
+export const isRegression = (change: MetricChange) => change.current < change.baseline
+
+const formatValue = (value: number | null) => (value === null ? "-" : value.toFixed(3))
+
+const formatChange = (changes: MetricChange[], label: string | null, metric: MetricChange["metric"]) => {
+  const change = changes.find((c) => c.label === label && c.metric === metric)
+  if (!change) return ""
+  const delta = change.current - change.baseline
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(3)}`
+}
+
+// a plain text table per label and per fixture, with the move since the baseline next to each metric
+export const formatReport = (report: EvaluationReport, changes: MetricChange[] = []) => {
+  const header = ["Label", "TP", "FP", "FN", "Precision", "", "Recall", "", "IoU", ""]
+  const row = (label: string | null, metrics: LabelMetrics) => [
+    label ?? "All labels",
+    String(metrics.truePositives),
+    String(metrics.falsePositives),
+    String(metrics.falseNegatives),
+    ...METRICS.flatMap((metric) => [formatValue(metrics[metric]), formatChange(changes, label, metric)]),
+  ]
+
+  const rows = [header, ...Object.entries(report.labels).map(([label, metrics]) => row(label, metrics)), row(null, report.overall)]
+  const widths = header.map((_, column) => Math.max(...rows.map((cells) => cells[column].length)))
+  const table = rows.map((cells) => cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ").trimEnd())
+
+  const fixtures = report.fixtures.map((fixture) => {
+    const notes = [
+      fixture.unlocated > 0 && `${fixture.unlocated} unlocated`,
+      fixture.missingRecordings > 0 && `${fixture.missingRecordings} prompt${fixture.missingRecordings === 1 ? "" : "s"} not recorded`,
+      ...fixture.warnings,
+    ].filter(Boolean)
+    const { truePositives, falsePositives, falseNegatives } = fixture.metrics
+    return `  ${fixture.name}: ${truePositives} TP, ${falsePositives} FP, ${falseNegatives} FN${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`
+  })
+
+  return [
+    `IoU threshold ${report.iouThreshold}, ${report.fixtures.length} fixture${report.fixtures.length === 1 ? "" : "s"}`,
+    "",
+    ...table,
+    "",
+    "Fixtures:",
+    ...fixtures,
+  ].join("\n")
+}
@@ -0,0 +1,58 @@
+import type { OcrResult } from "@/lib/ocr"
+import type { ProcessImageOptions } from "@/lib/pipeline"
+
+// a PII item a person marked on the fixture image, in upright image pixels
+export type ExpectedPii = {
+  label: string
+  text?: string // what the box covers, for reading the fixture and the report
+  box: [number, number, number, number] // [x, y, width, height]
+}
+
+// the model's raw answers, keyed by a hash of the exact prompt each one was given
+export type ModelRecording = {
+  model: string // provider and model name the answers came from, e.g. "openai:gpt-4o"
+  responses: Record<string, string>
+}
+
+export type Fixture = {
+  name: string // directory name
+  dir: string
+  description?: string
+  image: Buffer // the fixture image, or a blank page of the recorded size when there is none
+  options: ProcessImageOptions
+  expected: ExpectedPii[]
+  ocr?: OcrResult // recorded OCR; without it the configured OCR provider runs on the image
+  model?: ModelRecording
+}
+
+export type LabelMetrics = {
+  truePositives: number // expected boxes covered by a detection with the same label
+  falsePositives: number
+  falseNegatives: number
+  precision: number | null // null when nothing was detected
+  recall: number | null // null when nothing was expected
+  meanIou: number | null // mean intersection over union of the matched boxes
+}
+
+export type FixtureResult = {
+  name: string
+  metrics: LabelMetrics
+  unlocated: number // detections the pipeline could not place on the image
+  missingRecordings: number // prompts the replayed model had no answer for, re-record the fixture to fix
+  warnings: string[]
+}
+
+export type EvaluationReport = {
+  iouThreshold: number
+  labels: Record<string, LabelMetrics>
+  overall: LabelMetrics
+  fixtures: FixtureResult[]
+}
+
+// a metric that moved since the baseline; label is null for the overall figures
+export type MetricChange = {
+  label: string | null
+  metric: "precision" | "recall" | "meanIou"
+  baseline: number
+  current: number
+}
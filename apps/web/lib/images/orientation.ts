@@ -0,0 +1,23 @@
+import sharp from "sharp"
+import { getOrientedSize, toExifOrientation, type ExifOrientation } from "@/lib/redaction/transform"
+
+export type UprightImage = {
+  buffer: Buffer
+  width: number
+  height: number
+  orientation: ExifOrientation // the tag that was applied, 1 when the pixels were already upright
+}
+
+// apply the EXIF orientation to the pixels, so OCR, detection and rendering all work on the image as people see it.
+// phone photos are often stored sideways or upside down with only the tag saying which way is up
+export const toUprightImage = async (image: Buffer, size?: { width: number, height: number, orientation?: number }): Promise<UprightImage> => {
+  const metadata = size ?? await sharp(image).metadata()
+  if (!metadata.width || !metadata.height) throw new Error("Could not read the image size.")
+
+  const orientation = toExifOrientation(metadata.orientation)
+  const { width, height } = getOrientedSize({ width: metadata.width, height: metadata.height }, orientation)
+  if (orientation === 1) return { buffer: image, width, height, orientation }
+
+  // rotate() without an angle applies the tag and drops it from the output
+  return { buffer: await sharp(image).rotate().toBuffer(), width, height, orientation }
+}
@@ -0,0 +1,2 @@
+export { createLogger, type LogFields, type LogLevel, type Logger } from "./logger"
+export { maskFields, maskValue } from "./mask"
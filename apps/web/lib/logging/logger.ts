@@ -0,0 +1,46 @@
+import { maskFields } from "./mask"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFields = Record<string, unknown>
+
+export type Logger = Record<LogLevel, (message: string, fields?: LogFields) => void>
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+// LOG_LEVEL=debug turns on verbose pipeline tracing, which is off by default
+const getMinimumLevel = (): LogLevel => {
+  const level = process.env.LOG_LEVEL?.toLowerCase()
+  return LOG_LEVELS.includes(level as LogLevel) ? level as LogLevel : "info"
+}
+
+// raw PII in logs needs an explicit opt-in and is never allowed in production
+const shouldLogRawPii = () => process.env.LOG_UNMASKED_PII === "true" && process.env.NODE_ENV !== "production"
+
+// structured, levelled logger for server code. messages must be static text: anything document-derived
+// goes in fields, where PII-bearing keys (text, words, pii, ...) are masked unless raw logging is enabled
+export const createLogger = (scope: string): Logger => {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getMinimumLevel())) return
+
+    const entry = {
+      level,
+      scope,
+      message,
+      ...(fields && (shouldLogRawPii() ? fields : maskFields(fields) as LogFields)),
+      time: new Date().toISOString(),
+    }
+    const line = JSON.stringify(entry, (_, value) => (value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value))
+
+    if (level === "error") console.error(line)
+    else if (level === "warn") console.warn(line)
+    else console.log(line)
+  }
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+  }
+}
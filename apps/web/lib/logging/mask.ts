@@ -0,0 +1,54 @@
+// field names that carry document text or PII; their values never reach logs or Sentry unmasked
+const PII_FIELDS = new Set([
+  "text",
+  "fulltext",
+  "pii",
+  "piitext",
+  "piidata",
+  "words",
+  "word",
+  "variant",
+  "variants",
+  "searchvariants",
+  "value",
+  "object",
+  "prompt",
+  "image",
+  "imagebase64",
+  "terms",
+])
+
+export const isPiiField = (key: string) => PII_FIELDS.has(key.toLowerCase())
+
+// random per process, so hashes correlate entries within one log but can't be looked up across deployments
+const HASH_SALT = Array.from(crypto.getRandomValues(new Uint32Array(2)), (n) => n.toString(16)).join("")
+
+// FNV-1a: a short, synchronous fingerprint that works in both the Node and edge runtimes. not cryptographic
+const fingerprint = (value: string) => {
+  let hash = 0x811c9dc5
+  for (const char of HASH_SALT + value) {
+    hash ^= char.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+// replace a PII value with its shape, e.g. "[redacted string(12) #1a2b3c4d]" or "[redacted array(3)]"
+export const maskValue = (value: unknown): string => {
+  if (typeof value === "string") return `[redacted string(${value.length}) #${fingerprint(value)}]`
+  if (Array.isArray(value)) return `[redacted array(${value.length})]`
+  if (value === null || value === undefined) return String(value)
+  return `[redacted ${typeof value}]`
+}
+
+// deep copy of a log payload with every PII field masked
+export const maskFields = (value: unknown, depth = 0): unknown => {
+  if (depth > 6 || value === null || typeof value !== "object") return value
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack }
+  if (Array.isArray(value)) return value.map((item) => maskFields(item, depth + 1))
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    isPiiField(key) ? maskValue(field) : maskFields(field, depth + 1),
+  ]))
+}
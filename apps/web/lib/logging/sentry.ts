@@ -0,0 +1,40 @@
+import type { Breadcrumb, ErrorEvent } from "@sentry/nextjs"
+import { maskFields } from "./mask"
+
+const SCRUBBED = "[scrubbed]"
+
+// log lines can contain document text when raw logging is enabled locally, so console breadcrumbs never keep their content
+export const scrubSentryBreadcrumb = (breadcrumb: Breadcrumb): Breadcrumb => {
+  if (breadcrumb.category === "console") {
+    return { ...breadcrumb, message: SCRUBBED, data: undefined }
+  }
+  return { ...breadcrumb, data: breadcrumb.data && maskFields(breadcrumb.data) as Breadcrumb["data"] }
+}
+
+// strip uploaded images, OCR text and detections from Sentry events before they leave the server or the browser
+export const scrubSentryEvent = (event: ErrorEvent): ErrorEvent => {
+  if (event.request) {
+    // request bodies are uploads (base64 images, term lists), and cookies or headers may identify the requester
+    event.request = {
+      ...event.request,
+      data: event.request.data === undefined ? undefined : SCRUBBED,
+      cookies: undefined,
+      headers: event.request.headers && Object.fromEntries(
+        Object.entries(event.request.headers).filter(([key]) => !["cookie", "authorization"].includes(key.toLowerCase())),
+      ),
+    }
+  }
+
+  if (event.extra) event.extra = maskFields(event.extra) as ErrorEvent["extra"]
+  if (event.contexts) event.contexts = maskFields(event.contexts) as ErrorEvent["contexts"]
+  if (event.breadcrumbs) event.breadcrumbs = event.breadcrumbs.map(scrubSentryBreadcrumb)
+
+  // local variables captured on stack frames can hold the OCR text or PII lists
+  event.exception?.values?.forEach((exception) => {
+    exception.stacktrace?.frames?.forEach((frame) => {
+      delete frame.vars
+    })
+  })
+
+  return event
+}
@@ -0,0 +1,133 @@
+import type { MetadataCategory, MetadataEntry } from "./types"
+
+type TagInfo = { label: string, category: MetadataCategory }
+
+// the EXIF tags worth reporting, from IFD0 and the Exif sub-IFD
+const TAGS: Record<number, TagInfo> = {
+  0x010e: { label: "Description", category: "document" },
+  0x010f: { label: "Camera make", category: "camera" },
+  0x0110: { label: "Camera model", category: "camera" },
+  0x0131: { label: "Software", category: "software" },
+  0x0132: { label: "Modified", category: "date" },
+  0x013b: { label: "Artist", category: "person" },
+  0x8298: { label: "Copyright", category: "person" },
+  0x9003: { label: "Taken", category: "date" },
+  0x9286: { label: "User comment", category: "document" },
+  0xa420: { label: "Image ID", category: "serial" },
+  0xa430: { label: "Camera owner", category: "person" },
+  0xa431: { label: "Camera serial number", category: "serial" },
+  0xa434: { label: "Lens model", category: "camera" },
+  0xa435: { label: "Lens serial number", category: "serial" },
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+
+// bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+type IfdEntry = { tag: number, type: number, count: number, valueOffset: number }
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): IfdEntry[] => {
+  const start = tiffStart + offset
+  if (start + 2 > view.byteLength) return []
+
+  const count = view.getUint16(start, little)
+  const entries: IfdEntry[] = []
+  for (let i = 0; i < count; i++) {
+    const entryStart = start + 2 + i * 12
+    if (entryStart + 12 > view.byteLength) break
+    const type = view.getUint16(entryStart + 2, little)
+    const valueCount = view.getUint32(entryStart + 4, little)
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount
+    // values of 4 bytes or less are stored in the entry itself
+    const valueOffset = size <= 4 ? entryStart + 8 : tiffStart + view.getUint32(entryStart + 8, little)
+    entries.push({ tag: view.getUint16(entryStart, little), type, count: valueCount, valueOffset })
+  }
+  return entries
+}
+
+const readAscii = (view: DataView, entry: IfdEntry) => {
+  const bytes: number[] = []
+  for (let i = 0; i < entry.count && entry.valueOffset + i < view.byteLength; i++) {
+    const byte = view.getUint8(entry.valueOffset + i)
+    if (byte === 0) break
+    bytes.push(byte)
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes)).trim()
+}
+
+const readRationals = (view: DataView, entry: IfdEntry, little: boolean) => {
+  const values: number[] = []
+  for (let i = 0; i < entry.count && entry.valueOffset + i * 8 + 8 <= view.byteLength; i++) {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, little)
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, little)
+    values.push(denominator === 0 ? 0 : numerator / denominator)
+  }
+  return values
+}
+
+const readValue = (view: DataView, entry: IfdEntry, little: boolean) => {
+  switch (entry.type) {
+    case 2: return readAscii(view, entry)
+    case 3: return entry.valueOffset + 2 <= view.byteLength ? String(view.getUint16(entry.valueOffset, little)) : ""
+    case 4: return entry.valueOffset + 4 <= view.byteLength ? String(view.getUint32(entry.valueOffset, little)) : ""
+    case 5: return readRationals(view, entry, little).map((value) => String(value)).join(", ")
+    // UserComment starts with an 8 byte character code, the rest is usually ASCII
+    case 7: return readAscii(view, { ...entry, valueOffset: entry.valueOffset + 8, count: Math.max(0, entry.count - 8) })
+    default: return ""
+  }
+}
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[]) => degrees + minutes / 60 + seconds / 3600
+
+const readGps = (view: DataView, entries: IfdEntry[], little: boolean): MetadataEntry[] => {
+  const byTag = new Map(entries.map((entry) => [entry.tag, entry]))
+  const latitude = byTag.get(2)
+  const longitude = byTag.get(4)
+  if (!latitude || !longitude) {
+    return entries.length > 0 ? [{ category: "location", label: "Location", value: "GPS data present" }] : []
+  }
+
+  const latitudeRef = byTag.has(1) ? readAscii(view, byTag.get(1)!) : "N"
+  const longitudeRef = byTag.has(3) ? readAscii(view, byTag.get(3)!) : "E"
+  const lat = toDegrees(readRationals(view, latitude, little)) * (latitudeRef === "S" ? -1 : 1)
+  const lon = toDegrees(readRationals(view, longitude, little)) * (longitudeRef === "W" ? -1 : 1)
+
+  const result: MetadataEntry[] = [{ category: "location", label: "Location", value: `${lat.toFixed(5)}, ${lon.toFixed(5)}` }]
+  const altitude = byTag.get(6)
+  if (altitude) {
+    result.push({ category: "location", label: "Altitude", value: `${readRationals(view, altitude, little)[0]?.toFixed(1) ?? "?"} m` })
+  }
+  return result
+}
+
+// read the reportable fields from a TIFF-structured EXIF block (the payload of a JPEG APP1 "Exif" segment
+// or a PNG eXIf chunk). malformed data yields whatever could be read before it, never an error
+export const parseExif = (bytes: Uint8Array, tiffStart = 0): MetadataEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (tiffStart + 8 > view.byteLength) return []
+
+  const byteOrder = view.getUint16(tiffStart)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return []
+  const little = byteOrder === 0x4949
+
+  try {
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+    const exifPointer = ifd0.find((entry) => entry.tag === EXIF_IFD_POINTER)
+    const gpsPointer = ifd0.find((entry) => entry.tag === GPS_IFD_POINTER)
+    const exifIfd = exifPointer ? readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little) : []
+    const gpsIfd = gpsPointer ? readIfd(view, tiffStart, view.getUint32(gpsPointer.valueOffset, little), little) : []
+
+    const entries: MetadataEntry[] = [...ifd0, ...exifIfd].flatMap((entry) => {
+      const tag = TAGS[entry.tag]
+      if (!tag) return []
+      const value = readValue(view, entry, little)
+      return value ? [{ ...tag, value }] : []
+    })
+
+    return [...readGps(view, gpsIfd, little), ...entries]
+  } catch {
+    return []
+  }
+}
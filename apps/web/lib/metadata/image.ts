@@ -0,0 +1,112 @@
+import { parseExif } from "./exif"
+import type { MetadataCategory, MetadataEntry } from "./types"
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+export const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8
+export const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes)
+const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes)
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: string) =>
+  [...prefix].every((char, index) => bytes[offset + index] === char.charCodeAt(0))
+
+type JpegSegment = { marker: number, start: number, dataStart: number, end: number }
+
+// the segments before the image data; stops at start-of-scan since everything after it is pixels
+export const readJpegSegments = (bytes: Uint8Array) => {
+  const segments: JpegSegment[] = []
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    // standalone markers and fill bytes carry no length
+    if (marker === 0xff || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += marker === 0xff ? 1 : 2
+      continue
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    segments.push({ marker, start: offset, dataStart: offset + 4, end: offset + 2 + length })
+    if (marker === 0xda) break
+    offset += 2 + length
+  }
+  return segments
+}
+
+export type PngChunk = { type: string, start: number, dataStart: number, end: number }
+
+export const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: PngChunk[] = []
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = ascii(bytes.subarray(offset + 4, offset + 8))
+    chunks.push({ type, start: offset, dataStart: offset + 8, end: offset + 12 + length })
+    if (type === "IEND") break
+    offset += 12 + length
+  }
+  return chunks
+}
+
+// PNG text keywords mapped to what they usually hold
+const PNG_KEYWORD_CATEGORIES: Record<string, MetadataCategory> = {
+  author: "person",
+  copyright: "person",
+  "creation time": "date",
+  software: "software",
+  source: "camera",
+}
+
+const readPngText = (type: string, data: Uint8Array): MetadataEntry | null => {
+  const separator = data.indexOf(0)
+  if (separator <= 0) return null
+  const keyword = latin1(data.subarray(0, separator))
+  const category = PNG_KEYWORD_CATEGORIES[keyword.toLowerCase()] ?? "document"
+
+  if (type === "tEXt") {
+    return { category, label: keyword, value: latin1(data.subarray(separator + 1)).trim() }
+  }
+  if (type === "iTXt" && data[separator + 1] === 0) {
+    // keyword, compression flag and method, language tag, translated keyword, then UTF-8 text
+    let textStart = data.indexOf(0, separator + 3)
+    textStart = textStart === -1 ? -1 : data.indexOf(0, textStart + 1)
+    if (textStart !== -1) {
+      return { category, label: keyword, value: new TextDecoder().decode(data.subarray(textStart + 1)).trim() }
+    }
+  }
+  return { category, label: keyword, value: "(compressed text)" }
+}
+
+// list the metadata carried by a JPEG or PNG file: EXIF (including GPS), XMP, IPTC, comments and PNG text
+export const readImageMetadata = (bytes: Uint8Array): MetadataEntry[] => {
+  const entries: MetadataEntry[] = []
+
+  if (isJpeg(bytes)) {
+    for (const segment of readJpegSegments(bytes)) {
+      if (segment.marker === 0xe1 && startsWith(bytes, segment.dataStart, "Exif\0\0")) {
+        entries.push(...parseExif(bytes.subarray(segment.dataStart + 6, segment.end)))
+      } else if (segment.marker === 0xe1 && startsWith(bytes, segment.dataStart, "http://ns.adobe.com/xap/1.0/")) {
+        entries.push({ category: "document", label: "XMP metadata", value: `${segment.end - segment.dataStart} bytes` })
+      } else if (segment.marker === 0xed) {
+        entries.push({ category: "document", label: "IPTC metadata", value: `${segment.end - segment.dataStart} bytes` })
+      } else if (segment.marker === 0xfe) {
+        entries.push({ category: "document", label: "Comment", value: latin1(bytes.subarray(segment.dataStart, segment.end)).trim() })
+      }
+    }
+  } else if (isPng(bytes)) {
+    for (const chunk of readPngChunks(bytes)) {
+      const data = bytes.subarray(chunk.dataStart, chunk.end - 4)
+      if (chunk.type === "eXIf") {
+        entries.push(...parseExif(data))
+      } else if (chunk.type === "tEXt" || chunk.type === "iTXt" || chunk.type === "zTXt") {
+        const entry = readPngText(chunk.type, data)
+        if (entry) entries.push(entry)
+      } else if (chunk.type === "tIME") {
+        entries.push({ category: "date", label: "Modified", value: `${(data[0] << 8) | data[1]}-${data[2]}-${data[3]}` })
+      }
+    }
+  }
+
+  return entries.filter((entry) => entry.value)
+}
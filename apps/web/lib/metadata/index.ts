@@ -0,0 +1,5 @@
+export { readImageMetadata } from "./image"
+export { readFileMetadata } from "./read"
+export { stripBlobMetadata, stripImageMetadata } from "./strip"
+export { PERSONAL_METADATA_CATEGORIES, isPersonalMetadata } from "./types"
+export type { MetadataCategory, MetadataEntry } from "./types"
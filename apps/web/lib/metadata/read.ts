@@ -0,0 +1,29 @@
+import { PDFDocument } from "pdf-lib"
+import { readImageMetadata } from "./image"
+import type { MetadataEntry } from "./types"
+
+// the document information fields of a PDF
+const readPdfMetadata = async (bytes: Uint8Array): Promise<MetadataEntry[]> => {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false })
+  const fields: [MetadataEntry["category"], string, string | Date | undefined][] = [
+    ["document", "Title", pdfDoc.getTitle()],
+    ["person", "Author", pdfDoc.getAuthor()],
+    ["document", "Subject", pdfDoc.getSubject()],
+    ["document", "Keywords", pdfDoc.getKeywords()],
+    ["software", "Created with", pdfDoc.getCreator()],
+    ["software", "Producer", pdfDoc.getProducer()],
+    ["date", "Created", pdfDoc.getCreationDate()],
+    ["date", "Modified", pdfDoc.getModificationDate()],
+  ]
+  return fields.flatMap(([category, label, value]) => {
+    const text = value instanceof Date ? value.toISOString() : value?.trim()
+    return text ? [{ category, label, value: text }] : []
+  })
+}
+
+// what metadata an uploaded file carries, for the pre-processing report. none of it is copied to the downloads
+export const readFileMetadata = async (file: Blob): Promise<MetadataEntry[]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (file.type === "application/pdf") return readPdfMetadata(bytes)
+  return readImageMetadata(bytes)
+}
@@ -0,0 +1,48 @@
+import { isJpeg, isPng, readJpegSegments, readPngChunks } from "./image"
+
+// JPEG segments that can hold personal data: APP1 (EXIF, XMP), APP3-APP13 (maker notes, IPTC), APP15 and comments.
+// APP0 (JFIF), APP2 (ICC colour profile) and APP14 (Adobe colour transform) are needed to show the image correctly
+const isStrippedJpegMarker = (marker: number) =>
+  marker === 0xe1 || (marker >= 0xe3 && marker <= 0xed) || marker === 0xef || marker === 0xfe
+
+// PNG chunks with free text, EXIF or timestamps
+const STRIPPED_PNG_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"])
+
+const concat = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+// remove EXIF/GPS, XMP, IPTC, comments and text chunks from an encoded JPEG or PNG without re-encoding it.
+// other formats are returned untouched
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (isJpeg(bytes)) {
+    const segments = readJpegSegments(bytes)
+    const scan = segments.find((segment) => segment.marker === 0xda)
+    if (!scan) return bytes
+    return concat([
+      bytes.subarray(0, 2),
+      ...segments.filter((segment) => segment.marker !== 0xda && !isStrippedJpegMarker(segment.marker))
+        .map((segment) => bytes.subarray(segment.start, segment.end)),
+      bytes.subarray(scan.start),
+    ])
+  }
+
+  if (isPng(bytes)) {
+    const chunks = readPngChunks(bytes)
+    return concat([
+      bytes.subarray(0, 8),
+      ...chunks.filter((chunk) => !STRIPPED_PNG_CHUNKS.has(chunk.type)).map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+    ])
+  }
+
+  return bytes
+}
+
+export const stripBlobMetadata = async (blob: Blob) =>
+  new Blob([stripImageMetadata(new Uint8Array(await blob.arrayBuffer())) as BlobPart], { type: blob.type })
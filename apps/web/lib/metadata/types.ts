@@ -0,0 +1,14 @@
+// what a metadata field reveals, used to decide which entries count as personal data
+export type MetadataCategory = "location" | "person" | "serial" | "camera" | "date" | "software" | "document"
+
+// one metadata field found in an uploaded file
+export type MetadataEntry = {
+  category: MetadataCategory
+  label: string // e.g. "Location", "Camera serial number"
+  value: string // human readable, e.g. "51.50740, -0.12780"
+}
+
+// categories that point at a person, place or specific device rather than describe the file
+export const PERSONAL_METADATA_CATEGORIES: MetadataCategory[] = ["location", "person", "serial"]
+
+export const isPersonalMetadata = (entry: MetadataEntry) => PERSONAL_METADATA_CATEGORIES.includes(entry.category)
@@ -0,0 +1,33 @@
+import { PipelineError } from "@/lib/errors"
+import { visionOcrProvider } from "./vision"
+import { tesseractOcrProvider } from "./tesseract"
+import type { OcrProvider, OcrProviderName } from "./types"
+
+export type { OcrProvider, OcrProviderName, OcrResult } from "./types"
+
+const OCR_PROVIDERS: Record<OcrProviderName, OcrProvider> = {
+  vision: visionOcrProvider,
+  tesseract: tesseractOcrProvider,
+}
+
+let overrideProvider: OcrProvider | undefined
+
+// use one provider for every request whatever it asks for, e.g. recorded OCR in the evaluation harness.
+// calling it without a provider goes back to the configured ones
+export const setOcrProvider = (provider?: OcrProvider) => {
+  overrideProvider = provider
+}
+
+export const isOcrProviderName = (name: string): name is OcrProviderName =>
+  Object.prototype.hasOwnProperty.call(OCR_PROVIDERS, name)
+
+// resolve the OCR provider for a request: explicit choice first, then OCR_PROVIDER env, then Google Vision
+export const getOcrProvider = (name?: OcrProviderName): OcrProvider => {
+  if (overrideProvider) return overrideProvider
+
+  const requested = name ?? process.env.OCR_PROVIDER ?? "vision"
+  if (!isOcrProviderName(requested)) {
+    throw new PipelineError("configuration_error", `Server configuration error: Unknown OCR provider "${requested}".`)
+  }
+  return OCR_PROVIDERS[requested]
+}
@@ -0,0 +1,61 @@
+import { createWorker, type Bbox } from "tesseract.js"
+import { PipelineError, throwIfCancelled } from "@/lib/errors"
+import type { Vertex, WordInfo } from "@/lib/pii/types"
+import type { OcrProvider } from "./types"
+
+// convert a Tesseract axis-aligned bbox into Vision-style clockwise vertices
+const bboxToVertices = (bbox: Bbox): Vertex[] => [
+  { x: bbox.x0, y: bbox.y0 },
+  { x: bbox.x1, y: bbox.y0 },
+  { x: bbox.x1, y: bbox.y1 },
+  { x: bbox.x0, y: bbox.y1 },
+]
+
+// fully local OCR using Tesseract; nothing leaves the server.
+// set TESSERACT_LANG_PATH to a directory containing `<lang>.traineddata` to run without network access
+export const tesseractOcrProvider: OcrProvider = {
+  name: "tesseract",
+  recognize: async (imageBase64, signal) => {
+    const worker = await createWorker(process.env.TESSERACT_LANG ?? "eng", undefined, {
+      ...(process.env.TESSERACT_LANG_PATH && { langPath: process.env.TESSERACT_LANG_PATH, gzip: false }),
+      ...(process.env.TESSERACT_CACHE_PATH && { cachePath: process.env.TESSERACT_CACHE_PATH }),
+    })
+
+    // cancelling terminates the worker mid-page instead of letting it finish a result nobody wants
+    let onAbort: (() => void) | undefined
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new PipelineError("cancelled", "Processing was cancelled."))
+      signal?.addEventListener("abort", onAbort, { once: true })
+    })
+
+    try {
+      throwIfCancelled(signal)
+      const { data } = await Promise.race([
+        worker.recognize(Buffer.from(imageBase64, "base64"), {}, { text: true, blocks: true }),
+        cancelled,
+      ])
+
+      const words: WordInfo[] = []
+      const paragraphStarts: number[] = []
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          paragraphStarts.push(words.length)
+          for (const line of paragraph.lines) {
+            for (const word of line.words) {
+              words.push({
+                text: word.text,
+                boundingBox: { vertices: bboxToVertices(word.bbox) },
+                symbols: word.symbols.map((symbol) => ({ text: symbol.text, boundingBox: { vertices: bboxToVertices(symbol.bbox) } })),
+              })
+            }
+          }
+        }
+      }
+
+      return { fullText: data.text ?? "", words, paragraphStarts }
+    } finally {
+      if (onAbort) signal?.removeEventListener("abort", onAbort)
+      await worker.terminate()
+    }
+  },
+}
@@ -0,0 +1,16 @@
+import type { WordInfo } from "@/lib/pii/types"
+
+export type OcrProviderName = "vision" | "tesseract"
+
+export type OcrResult = {
+  fullText: string
+  words: WordInfo[]
+  paragraphStarts?: number[] // index of the first word of each paragraph, used to split long text for the model
+  textAngle?: number // which way most of the text runs, clockwise in degrees, where the provider reports it
+}
+
+// an OCR engine that turns an image into text plus word-level (and, where available, character-level) bounding boxes
+export type OcrProvider = {
+  name: OcrProviderName
+  recognize: (imageBase64: string, signal?: AbortSignal) => Promise<OcrResult> // aborting cancels the upstream call
+}
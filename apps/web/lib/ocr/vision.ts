@@ -0,0 +1,102 @@
+import vision from "@google-cloud/vision"
+import { getTextAngle, toQuad, type Quad } from "@/lib/pii/geometry"
+import type { WordInfo } from "@/lib/pii/types"
+import { hashCacheKey } from "@/lib/cache"
+import { PipelineError } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import { withRecording } from "@/lib/recording"
+import { callUpstream } from "@/lib/upstream"
+import type { OcrProvider } from "./types"
+
+const log = createLogger("ocr-vision")
+
+// helper function to create the Vision API client using base64 credentials
+const createVisionClient = () => {
+  const credentialsBase64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_BASE64
+  if (!credentialsBase64) {
+    throw new PipelineError("configuration_error", "Server configuration error: GOOGLE_APPLICATION_CREDENTIALS_BASE64 is not set.")
+  }
+  try {
+    const serviceAccountJson = JSON.parse(Buffer.from(credentialsBase64, "base64").toString("utf8"))
+    return new vision.ImageAnnotatorClient({
+      credentials: serviceAccountJson,
+    })
+  } catch (error) {
+    log.error("Failed to parse Google Cloud credentials", { error })
+    throw new PipelineError("configuration_error", "Server configuration error: Invalid Google Cloud credentials format.")
+  }
+}
+
+type AnnotateImageRequest = { image: { content: string }, features: { type: string }[] }
+
+// one annotateImage call on its own client. the client takes no abort signal, so closing its channel is what stops
+// a call that timed out or was cancelled
+const annotateImage = async (request: AnnotateImageRequest, signal: AbortSignal) => {
+  const client = createVisionClient()
+  let closed = false
+  const close = () => {
+    if (closed) return
+    closed = true
+    client.close().catch((error) => log.debug("Closing the Vision client failed", { error }))
+  }
+  signal.addEventListener("abort", close, { once: true })
+  try {
+    const [response] = await client.annotateImage(request)
+    return response
+  } finally {
+    signal.removeEventListener("abort", close)
+    close()
+  }
+}
+
+// Google Cloud Vision OCR using DOCUMENT_TEXT_DETECTION. the raw annotateImage response goes through
+// UPSTREAM_RECORDING, keyed by the request, so replay needs no credentials
+export const visionOcrProvider: OcrProvider = {
+  name: "vision",
+  recognize: async (imageBase64, signal) => {
+    const request: AnnotateImageRequest = {
+      image: { content: imageBase64 },
+      features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+    }
+    let result
+    try {
+      result = await withRecording("vision", hashCacheKey(JSON.stringify(request)), () =>
+        callUpstream("vision", (abortSignal) => annotateImage(request, abortSignal), signal))
+    } catch (error) {
+      // configuration errors and cancelling keep their own code
+      if (error instanceof PipelineError) throw error
+      log.error("Vision OCR failed", { error })
+      throw new PipelineError("ocr_unavailable", "Text recognition is unavailable right now. Please try again in a moment.")
+    }
+    const annotation = result.fullTextAnnotation
+
+    if (!annotation || !annotation.text) {
+      return { fullText: "", words: [] }
+    }
+
+    // extract words and their bounding boxes from the document structure, keeping the per-character boxes
+    const words: WordInfo[] = []
+    const paragraphStarts: number[] = []
+    // Vision lists each block's corners in reading order, so they say which way the page's text runs
+    const blockQuads: Quad[] = []
+    for (const page of annotation.pages ?? []) {
+      for (const block of page.blocks ?? []) {
+        const blockQuad = toQuad(block.boundingBox)
+        if (blockQuad) blockQuads.push(blockQuad)
+        for (const paragraph of block.paragraphs ?? []) {
+          paragraphStarts.push(words.length)
+          for (const word of paragraph.words ?? []) {
+            const wordText = word.symbols?.map((s) => s.text).join("") ?? ""
+            words.push({
+              text: wordText,
+              boundingBox: word.boundingBox,
+              symbols: word.symbols?.map((symbol) => ({ text: symbol.text ?? "", boundingBox: symbol.boundingBox })),
+            })
+          }
+        }
+      }
+    }
+
+    return { fullText: annotation.text, words, paragraphStarts, textAngle: getTextAngle(blockQuads) }
+  },
+}
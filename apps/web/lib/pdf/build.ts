@@ -0,0 +1,22 @@
+import { PDFDocument } from "pdf-lib"
+
+export type ImagePdfPage = {
+  png: Uint8Array // the fully redacted page render
+  pageSize: { width: number, height: number } // page size in PDF points
+}
+
+// build a flattened PDF where every page is a single image. shared by the browser export and the server
+// renderer so both produce the same structure: no text layer and no document information but the producer
+export const buildImagePdf = async (pages: ImagePdfPage[]): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false })
+  pdfDoc.setProducer("RedactThat")
+  pdfDoc.setCreator("RedactThat")
+
+  for (const { png, pageSize } of pages) {
+    const image = await pdfDoc.embedPng(png)
+    const page = pdfDoc.addPage([pageSize.width, pageSize.height])
+    page.drawImage(image, { x: 0, y: 0, width: pageSize.width, height: pageSize.height })
+  }
+
+  return pdfDoc.save()
+}
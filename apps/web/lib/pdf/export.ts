@@ -0,0 +1,18 @@
+import { buildImagePdf } from "./build"
+
+export type PdfExportPage = {
+  canvas: HTMLCanvasElement // the fully redacted page render
+  pageSize: { width: number, height: number } // page size in PDF points
+}
+
+// build a flattened PDF where every page is a single image of the redacted render.
+// nothing from the source PDF is copied, so no text layer or document information (author, title, dates)
+// survives. the only metadata written is the producer
+export const exportRedactedPdf = async (pages: PdfExportPage[]): Promise<Blob> => {
+  const pdfPages = await Promise.all(pages.map(async ({ canvas, pageSize }) => {
+    const response = await fetch(canvas.toDataURL("image/png"))
+    return { png: new Uint8Array(await response.arrayBuffer()), pageSize }
+  }))
+  const pdfBytes = await buildImagePdf(pdfPages)
+  return new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" })
+}
@@ -0,0 +1,43 @@
+// PDF rendering resolution relative to 72dpi, high enough for OCR on small print
+const RASTER_SCALE = 2
+
+export type RasterizedPage = {
+  imageSrc: string // PNG data URL of the rendered page
+  pageSize: { width: number, height: number } // original page size in PDF points
+}
+
+// render every page of a PDF to a PNG in the browser so it can go through the image pipeline
+export const rasterizePdf = async (file: File): Promise<RasterizedPage[]> => {
+  // pdf.js is browser-only and heavy, so only load it once a PDF is actually uploaded
+  const pdfjs = await import("pdfjs-dist")
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+  const pages: RasterizedPage[] = []
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const baseViewport = page.getViewport({ scale: 1 })
+      const viewport = page.getViewport({ scale: RASTER_SCALE })
+
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.ceil(viewport.width)
+      canvas.height = Math.ceil(viewport.height)
+      const ctx = canvas.getContext("2d")
+      if (!ctx) throw new Error("Could not create a canvas to render the PDF.")
+
+      await page.render({ canvasContext: ctx, viewport }).promise
+
+      pages.push({
+        imageSrc: canvas.toDataURL("image/png"),
+        pageSize: { width: baseViewport.width, height: baseViewport.height },
+      })
+      page.cleanup()
+    }
+  } finally {
+    await pdf.destroy()
+  }
+
+  return pages
+}
@@ -0,0 +1,114 @@
+import { combineOffsets } from "./rules"
+import type { PiiItem, TextRange, WordInfo } from "./types"
+
+// a piece of the OCR text sent to the model on its own; start is its offset in the full text
+export type TextChunk = {
+  start: number
+  text: string
+}
+
+// where each OCR word sits in the full text. words appear in the text in reading order, so each one is looked
+// for after the previous; a word that cannot be found (null) is skipped without losing the place
+export const getWordOffsets = (fullText: string, words: WordInfo[]): (TextRange | null)[] => {
+  let cursor = 0
+  return words.map((word) => {
+    if (!word.text) return null
+    const start = fullText.indexOf(word.text, cursor)
+    if (start === -1) return null
+    cursor = start + word.text.length
+    return { start, end: cursor }
+  })
+}
+
+// offsets in the full text where a paragraph starts. without paragraphs from OCR, every line is one
+export const getParagraphBoundaries = (fullText: string, wordOffsets: (TextRange | null)[], paragraphStarts?: number[]) => {
+  const boundaries = paragraphStarts
+    ? paragraphStarts.flatMap((index) => wordOffsets[index]?.start ?? [])
+    : [...fullText.matchAll(/\n/g)].map((match) => match.index + 1)
+  return [...new Set(boundaries)].filter((offset) => offset > 0 && offset < fullText.length).sort((a, b) => a - b)
+}
+
+// the pieces no chunk splits: paragraphs, with any paragraph longer than a chunk cut at spaces into pieces no
+// longer than the overlap, so the chunks through it still overlap
+const getUnits = (fullText: string, boundaries: number[], size: number, overlap: number): TextRange[] => {
+  const starts = [0, ...boundaries]
+  return starts.flatMap((paragraphStart, index) => {
+    const end = starts[index + 1] ?? fullText.length
+    if (end - paragraphStart <= size) return [{ start: paragraphStart, end }]
+
+    const units: TextRange[] = []
+    let start = paragraphStart
+    while (end - start > overlap) {
+      const space = fullText.slice(start, start + overlap).search(/\s\S*$/)
+      const cut = space > 0 ? start + space + 1 : start + overlap
+      units.push({ start, end: cut })
+      start = cut
+    }
+    units.push({ start, end })
+    return units
+  })
+}
+
+// split the text into chunks of up to size characters on paragraph boundaries. each chunk repeats the last
+// paragraphs of the one before, up to overlap characters, so PII near a boundary is seen with its context
+export const splitIntoChunks = (fullText: string, boundaries: number[], { size, overlap }: { size: number, overlap: number }): TextChunk[] => {
+  if (fullText.length <= size) return [{ start: 0, text: fullText }]
+
+  const units = getUnits(fullText, boundaries, size, overlap)
+  const chunks: TextChunk[] = []
+
+  for (let first = 0; ;) {
+    let last = first
+    while (last + 1 < units.length && units[last + 1].end - units[first].start <= size) last++
+    chunks.push({ start: units[first].start, text: fullText.slice(units[first].start, units[last].end) })
+    if (last === units.length - 1) return chunks
+
+    let next = last + 1
+    while (next - 1 > first && units[last].end - units[next - 1].start <= overlap) next--
+    first = next
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// every place in the chunk the model's text occurs, as offsets in the full text. the match ignores case and
+// treats any run of whitespace as one, since the model may put a line break back as a space
+export const findInChunk = (chunk: TextChunk, text: string): TextRange[] => {
+  const tokens = text.trim().split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) return []
+
+  const pattern = new RegExp(tokens.map(escapeRegExp).join("\\s+"), "gi")
+  return [...chunk.text.matchAll(pattern)].map((match) => ({
+    start: chunk.start + match.index,
+    end: chunk.start + match.index + match[0].length,
+  }))
+}
+
+const contains = (outer: TextRange, inner: TextRange) =>
+  outer.start <= inner.start && inner.end <= outer.end && (outer.end - outer.start) > (inner.end - inner.start)
+
+// combine the items from every chunk: an occurrence found by two overlapping chunks is kept once, and one that
+// lies inside a longer detection with the same label (e.g. a name cut short at the edge of a chunk) is dropped
+export const mergeChunkResults = (results: PiiItem[][]): PiiItem[] => {
+  const items = results.flat()
+  const offsetsByLabel = (label: string) =>
+    items.flatMap((item) => item.label.toLowerCase() === label.toLowerCase() ? item.offsets ?? [] : [])
+
+  const merged = new Map<string, PiiItem>()
+  for (const item of items) {
+    const sameLabel = offsetsByLabel(item.label)
+    const offsets = item.offsets?.filter((range) => !sameLabel.some((other) => contains(other, range)))
+    // an item found only inside longer detections adds nothing
+    if (offsets && offsets.length === 0) continue
+
+    const key = `${item.label.toLowerCase()}\u0000${item.text.toLowerCase()}`
+    const existing = merged.get(key)
+    if (!existing) {
+      merged.set(key, { ...item, offsets })
+      continue
+    }
+    existing.offsets = combineOffsets(existing.offsets, offsets)
+  }
+
+  return [...merged.values()]
+}
@@ -0,0 +1,165 @@
+import { NoObjectGeneratedError, TypeValidationError, generateObject } from "ai"
+import { z } from "zod"
+import { hashCacheKey, withCache } from "@/lib/cache"
+import { PipelineError, throwIfCancelled } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import { PII_PROMPT_VERSION, buildPiiPrompt, type RedactionPolicy } from "@/lib/policies"
+import { createConcurrencyLimit } from "@/lib/batch/limit"
+import { callUpstream } from "@/lib/upstream"
+import { findInChunk, mergeChunkResults, splitIntoChunks } from "./chunks"
+import { getClassifierModel, type ClassifierModel } from "./models"
+import type { PiiItem } from "./types"
+
+const log = createLogger("pii-classifier")
+
+// how many times a malformed answer is asked for again
+const DEFAULT_VALIDATION_RETRIES = 1
+
+// characters of context a chunk repeats from the one before, and how many chunks are classified at once
+const CHUNK_OVERLAP = 500
+const DEFAULT_CHUNK_CONCURRENCY = 4
+
+// define the schema for the PII data we expect from the AI model
+const PiiSchema = z.object({
+  pii: z
+    .array(
+      z.object({
+        text: z.string().describe("The exact text of the personally identifiable information."),
+        label: z.string().describe("A category for the PII, e.g., 'Name', 'Address', 'Phone Number', 'License Plate'."),
+      }),
+    )
+    .describe("An array of PII objects found in the text."),
+})
+
+// models often wrap an otherwise usable answer: code fences, a sentence before the JSON, or a bare list of
+// items without the { pii } object around it
+const repairPiiJson = async ({ text }: { text: string }) => {
+  const start = text.search(/[[{]/)
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"))
+  if (start === -1 || end < start) return null
+
+  try {
+    const parsed: unknown = JSON.parse(text.slice(start, end + 1))
+    return JSON.stringify(Array.isArray(parsed) ? { pii: parsed } : parsed)
+  } catch {
+    return null
+  }
+}
+
+const readInteger = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value)
+  return value && Number.isInteger(parsed) && parsed >= min ? parsed : fallback
+}
+
+// why an answer was rejected, for the logs: the error's message quotes the answer itself, which is the detected
+// PII, so only the error name and the schema paths that failed are kept
+const describeRejection = (error: NoObjectGeneratedError) => {
+  const cause = error.cause instanceof Error ? error.cause : error
+  const issues = TypeValidationError.isInstance(cause) && cause.cause instanceof z.ZodError ? cause.cause.issues : []
+  return { errorName: cause.name, paths: issues.map((issue) => issue.path.join(".") || "(root)") }
+}
+
+const getValidationRetries = () => readInteger(process.env.PII_MODEL_VALIDATION_RETRIES, DEFAULT_VALIDATION_RETRIES, 0)
+
+// ask the model for PII and check the answer against PiiSchema. a malformed answer is asked for again, with the
+// reason, up to PII_MODEL_VALIDATION_RETRIES times; timeouts and rate limits are retried by callUpstream
+const generatePii = async (classifier: ClassifierModel, prompt: string, signal?: AbortSignal) => {
+  const maxRetries = getValidationRetries()
+  let correction = ""
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // retries are handled by callUpstream, so the SDK's own are turned off
+      const { object } = await callUpstream("openai", (abortSignal) => generateObject({
+        model: classifier.model,
+        schema: PiiSchema,
+        mode: "json",
+        prompt: `${prompt}${correction}`,
+        temperature: classifier.profile.temperature,
+        experimental_repairText: repairPiiJson,
+        abortSignal,
+        maxRetries: 0,
+      }), signal)
+      return object
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error) || attempt >= maxRetries) throw error
+
+      const reason = error.cause instanceof Error ? error.cause.message : error.message
+      log.warn("Model returned malformed PII, retrying", { model: classifier.id, attempt: attempt + 1, ...describeRejection(error) })
+      correction = `\n\nYour previous reply could not be used: ${reason.slice(0, 300)}. Reply with only a JSON object of the form {"pii": [{"text": "...", "label": "..."}]}.`
+    }
+  }
+}
+
+// helper function to call the configured model and identify the policy's PII categories in a block of text.
+// results are cached by model, prompt version and the full prompt (policy, model instructions and text). a call
+// that keeps failing throws detection_unavailable rather than returning no PII, and is not cached
+export const identifyPiiInText = async (
+  text: string,
+  policy: RedactionPolicy,
+  options: { cache?: boolean, signal?: AbortSignal } = {},
+): Promise<PiiItem[]> => {
+  const classifier = getClassifierModel()
+
+  try {
+    const prompt = buildPiiPrompt(policy, text, classifier.profile.instructions)
+    return await withCache("pii", hashCacheKey(classifier.id, String(PII_PROMPT_VERSION), prompt), options.cache ?? true, async () => {
+      const object = await generatePii(classifier, prompt, options.signal)
+
+      log.debug("Model returned PII", { model: classifier.id, count: object.pii.length, pii: object.pii })
+
+      return object.pii
+        .map((pii) => ({ text: pii.text.trim(), label: pii.label.trim(), source: "model" as const }))
+        .filter((pii) => pii.text && pii.label)
+    })
+  } catch (error) {
+    if (error instanceof PipelineError && error.code === "cancelled") throw error
+    log.error("Error identifying PII with the model", { model: classifier.id, error })
+    throw new PipelineError("detection_unavailable", "AI detection is unavailable right now.")
+  }
+}
+
+// classify text of any length: split it into overlapping chunks on paragraph boundaries (PII_CHUNK_SIZE or the
+// model's own size), classify them in parallel and return each item with the offsets it was found at in the
+// chunk, so only those occurrences are redacted. boundaries are offsets in the text where paragraphs start
+export const identifyPiiInDocument = async (
+  text: string,
+  boundaries: number[],
+  policy: RedactionPolicy,
+  options: { cache?: boolean, signal?: AbortSignal } = {},
+): Promise<PiiItem[]> => {
+  const { profile } = getClassifierModel()
+  const size = readInteger(process.env.PII_CHUNK_SIZE, profile.chunkSize, CHUNK_OVERLAP * 2)
+  const chunks = splitIntoChunks(text, boundaries, { size, overlap: CHUNK_OVERLAP })
+  if (chunks.length > 1) {
+    log.debug("Classifying text in chunks", { length: text.length, chunkCount: chunks.length, size })
+  }
+
+  // one failed chunk fails the document, so the others are cancelled rather than left running
+  throwIfCancelled(options.signal)
+  const controller = new AbortController()
+  const cancel = () => controller.abort()
+  options.signal?.addEventListener("abort", cancel, { once: true })
+  const limit = createConcurrencyLimit(readInteger(process.env.PII_CHUNK_CONCURRENCY, DEFAULT_CHUNK_CONCURRENCY, 1))
+
+  try {
+    const results = await Promise.all(chunks.map((chunk) => limit(async () => {
+      const pii = await identifyPiiInText(chunk.text, policy, { cache: options.cache, signal: controller.signal })
+      return pii.map((item) => {
+        // where the text appears in the chunk it was returned for. text the model reworded has none and is only searched for
+        const offsets = findInChunk(chunk, item.text)
+        return offsets.length > 0 ? { ...item, offsets } : item
+      })
+    }).catch((error) => {
+      controller.abort()
+      throw error
+    })))
+    return mergeChunkResults(results)
+  } catch (error) {
+    // report the caller's cancellation rather than whichever chunk noticed it first
+    throwIfCancelled(options.signal)
+    throw error
+  } finally {
+    options.signal?.removeEventListener("abort", cancel)
+  }
+}
@@ -0,0 +1,112 @@
+import type { BoundingBox, Point, WordInfo } from "./types"
+
+// a box as four corners in reading order: top-left, top-right, bottom-right, bottom-left.
+// for rotated text these follow the text, not the image axes
+export type Quad = [Point, Point, Point, Point]
+
+const ALPHANUMERIC = /[a-zA-Z0-9]/
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+// position of a point along the line from a to b, 0 at a and 1 at b
+const project = (a: Point, b: Point, point: Point) => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  return lengthSquared === 0 ? 0 : ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// Vision leaves out coordinates that are 0, so a missing x or y is read as 0
+export const toQuad = (box?: BoundingBox | null): Quad | null => {
+  const vertices = box?.vertices
+  if (!vertices || vertices.length !== 4) return null
+  return vertices.map((v) => ({ x: v.x ?? 0, y: v.y ?? 0 })) as Quad
+}
+
+// the part of a quad between two positions along its reading direction
+export const sliceQuad = ([tl, tr, br, bl]: Quad, start: number, end: number): Quad => [
+  lerp(tl, tr, clamp(start)),
+  lerp(tl, tr, clamp(end)),
+  lerp(bl, br, clamp(end)),
+  lerp(bl, br, clamp(start)),
+]
+
+// where each letter or digit of a word sits along the word's box, as [start, end] from 0 to 1.
+// uses the OCR symbol boxes when the provider returns them, otherwise assumes even character widths
+export const getCharacterSpans = (word: WordInfo): [number, number][] => {
+  const quad = toQuad(word.boundingBox)
+  const characterCount = word.text.replace(/[^a-zA-Z0-9]/g, "").length
+
+  if (quad && word.symbols?.length) {
+    const spans = word.symbols.flatMap((symbol) => {
+      const characters = [...symbol.text].filter((char) => ALPHANUMERIC.test(char))
+      const symbolQuad = toQuad(symbol.boundingBox)
+      if (!symbolQuad) return characters.map(() => null)
+      const span: [number, number] = [project(quad[0], quad[1], symbolQuad[0]), project(quad[0], quad[1], symbolQuad[1])]
+      return characters.map(() => span)
+    })
+    if (spans.length === characterCount && spans.every((span) => span !== null)) {
+      return spans as [number, number][]
+    }
+  }
+
+  // estimated spans are widened by a quarter character each side, so a slightly off guess still covers the text
+  const characters = [...word.text]
+  return characters.flatMap((char, index) => (
+    ALPHANUMERIC.test(char)
+      ? [[clamp((index - 0.25) / characters.length), clamp((index + 1.25) / characters.length)] as [number, number]]
+      : []
+  ))
+}
+
+// true when the quad starts after the previous one on the same line of text
+const continuesLine = (previous: Quad, next: Quad) => {
+  const center = lerp(next[0], next[2], 0.5)
+  const across = project(previous[0], previous[3], center)
+  return project(previous[0], previous[1], next[0]) > 0 && across >= 0 && across <= 1
+}
+
+// join character or word boxes into one polygon: a quad per line of text, stacked into a single outline
+export const quadsToPolygon = (quads: Quad[]): Point[] => {
+  if (quads.length === 0) return []
+
+  const lines: Quad[][] = [[quads[0]]]
+  for (const quad of quads.slice(1)) {
+    const line = lines[lines.length - 1]
+    if (continuesLine(line[line.length - 1], quad)) {
+      line.push(quad)
+    } else {
+      lines.push([quad])
+    }
+  }
+
+  const lineQuads: Quad[] = lines.map((line) => {
+    const first = line[0]
+    const last = line[line.length - 1]
+    return [first[0], last[1], last[2], first[3]]
+  })
+  if (lineQuads.length === 1) return lineQuads[0]
+
+  // down the right-hand ends of the lines, then back up the left-hand starts
+  const rightSide = lineQuads.flatMap(([, tr, br]) => [tr, br])
+  const leftSide = lineQuads.slice(1).reverse().flatMap(([tl, , , bl]) => [bl, tl])
+  return [lineQuads[0][0], ...rightSide, ...leftSide, lineQuads[0][3]]
+}
+
+// the quarter turn (0, 90, 180 or 270 degrees clockwise) most of the boxes' text runs at, from the corner order
+// OCR gives them, or 0 when there are none
+export const getTextAngle = (quads: Quad[]) => {
+  const counts = new Map<number, number>()
+  for (const [tl, tr] of quads) {
+    if (tl.x === tr.x && tl.y === tr.y) continue
+    const angle = (Math.round(Math.atan2(tr.y - tl.y, tr.x - tl.x) / (Math.PI / 2)) * 90 + 360) % 360
+    counts.set(angle, (counts.get(angle) ?? 0) + 1)
+  }
+  return [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best), [0, 0])[0]
+}
+
+// polygon covering a match except its last few characters, e.g. to leave the last 4 digits of a card number readable
+export const coverAllButLast = (characters: Point[][], count: number): Point[] =>
+  quadsToPolygon(characters.slice(0, Math.max(0, characters.length - count)) as Quad[])
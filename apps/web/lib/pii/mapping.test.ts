@@ -0,0 +1,141 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { OcrProvider, OcrResult } from "@/lib/ocr"
+import { getWordOffsets } from "./chunks"
+import { mapPiiToBbox } from "./mapping"
+import type { BoundingBox, PiiItem, WordInfo } from "./types"
+
+// every character is 10px wide on a 30px line, so a box's x and width say which characters it covers
+const CHAR_WIDTH = 10
+const LINE_HEIGHT = 30
+
+const box = (x: number, y: number, width: number): BoundingBox => ({
+  vertices: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + 20 }, { x, y: y + 20 }],
+})
+
+// OCR that reads the given lines, with word and character boxes laid out on the grid
+const createStubOcrProvider = (lines: string[]): OcrProvider => ({
+  name: "vision",
+  recognize: async (): Promise<OcrResult> => {
+    const words: WordInfo[] = []
+    lines.forEach((line, row) => {
+      for (const match of line.matchAll(/\S+/g)) {
+        const x = match.index * CHAR_WIDTH
+        const y = row * LINE_HEIGHT
+        words.push({
+          text: match[0],
+          boundingBox: box(x, y, match[0].length * CHAR_WIDTH),
+          symbols: [...match[0]].map((char, index) => ({ text: char, boundingBox: box(x + index * CHAR_WIDTH, y, CHAR_WIDTH) })),
+        })
+      }
+    })
+    return { fullText: `${lines.join("\n")}\n`, words }
+  },
+})
+
+const locate = async (lines: string[], piiList: PiiItem[]) => {
+  const { fullText, words } = await createStubOcrProvider(lines).recognize("")
+  return { fullText, ...mapPiiToBbox(piiList, words, getWordOffsets(fullText, words)) }
+}
+
+// [x, width] of a match in characters
+const columns = ({ bbox }: { bbox: [number, number, number, number] }) => [bbox[0] / CHAR_WIDTH, bbox[2] / CHAR_WIDTH]
+
+describe("mapPiiToBbox", () => {
+  it("finds every exact occurrence", async () => {
+    const { piiData, unlocated } = await locate(["Name Jane Smith", "Signed Jane Smith"], [{ text: "Jane Smith", label: "Name" }])
+    assert.deepEqual(unlocated, [])
+    assert.deepEqual(piiData.map((pii) => [pii.matchType, pii.bbox[1] / LINE_HEIGHT]), [
+      ['exact variant: ["Jane","Smith"]', 0],
+      ['exact variant: ["Jane","Smith"]', 1],
+    ])
+    assert.deepEqual(columns(piiData[0]), [5, 10])
+    assert.ok(piiData.every((pii) => pii.redacted && pii.confidence === 1))
+  })
+
+  it("matches text OCR split or joined differently", async () => {
+    const { piiData } = await locate(["Vehicle LV72 EPC", "Postcode CO151AB"], [
+      { text: "LV72EPC", label: "Vehicle Registration" },
+      { text: "CO15 1AB", label: "Postcode" },
+    ])
+    assert.deepEqual(piiData.map((pii) => pii.matchType), ['exact variant: ["LV72","EPC"]', 'exact variant: ["CO151AB"]'])
+    assert.deepEqual(columns(piiData[0]), [8, 8])
+  })
+
+  it("falls back to fuzzy matching for OCR misreads", async () => {
+    const { piiData } = await locate(["PCN ZY1O241472 issued"], [{ text: "ZY10241472", label: "PCN Number" }])
+    assert.equal(piiData.length, 1)
+    assert.match(piiData[0].matchType!, /^fuzzy match \(90\.0%\)/)
+    assert.equal(piiData[0].confidence, 0.9)
+  })
+
+  it("gathers an address spread over lines with other text between", async () => {
+    const { piiData } = await locate(["12 High Street", "Tel 0123", "Clacton On Sea"], [{ text: "12 High Street, Clacton-On-Sea", label: "Address" }])
+    assert.equal(piiData.length, 1)
+    assert.match(piiData[0].matchType!, /^flexible match/)
+    assert.deepEqual(piiData[0].bbox, [0, 0, 140, 80])
+  })
+
+  it("returns what it cannot find as unlocated", async () => {
+    const { piiData, unlocated } = await locate(["Nothing to see here"], [{ text: "Jane Smith", label: "Name", source: "model" }])
+    assert.deepEqual(piiData, [])
+    assert.deepEqual(unlocated, [{ text: "Jane Smith", label: "Name", source: "model" }])
+  })
+
+  it("keeps the way the page's text runs on each match", async () => {
+    const { fullText, words } = await createStubOcrProvider(["Name Jane Smith"]).recognize("")
+    const { piiData } = mapPiiToBbox([{ text: "Jane Smith", label: "Name" }], words, getWordOffsets(fullText, words), 90)
+    assert.equal(piiData[0].textAngle, 90)
+    assert.equal((await locate(["Name Jane Smith"], [{ text: "Jane Smith", label: "Name" }])).piiData[0].textAngle, undefined)
+  })
+
+  it("counts a word without a box as not found", async () => {
+    const { piiData, unlocated } = mapPiiToBbox([{ text: "Jane", label: "Name" }], [{ text: "Jane" }])
+    assert.deepEqual(piiData, [])
+    assert.deepEqual(unlocated.map((pii) => pii.text), ["Jane"])
+  })
+})
+
+describe("partial word matches", () => {
+  it("redacts PII glued to a label after punctuation", async () => {
+    const { piiData } = await locate(["Contact Email:john@x.com today"], [{ text: "john@x.com", label: "Email" }])
+    assert.equal(piiData.length, 1)
+    assert.match(piiData[0].matchType!, /^partial word/)
+    assert.deepEqual(columns(piiData[0]), [14, 10])
+  })
+
+  it("does not redact inside a longer word", async () => {
+    const { piiData, unlocated } = await locate(["Flat 2 Annandale Road"], [{ text: "Anna", label: "Name" }])
+    assert.deepEqual(piiData, [])
+    assert.deepEqual(unlocated.map((pii) => pii.text), ["Anna"])
+  })
+})
+
+describe("offsets", () => {
+  const lines = ["Dear Jane Smith", "Vehicle LV72EPC", "Seen LV72 EPC", "Signed Jane Sm1th"]
+  const at = (fullText: string, text: string) => {
+    const start = fullText.indexOf(text)
+    return [{ start, end: start + text.length }]
+  }
+
+  it("places the occurrence the detector saw and still finds repeats that read differently", async () => {
+    const { fullText } = await createStubOcrProvider(lines).recognize("")
+    const { piiData, unlocated } = await locate(lines, [
+      { text: "Jane Smith", label: "Name", offsets: at(fullText, "Jane Smith") },
+      { text: "LV72EPC", label: "Vehicle Registration", offsets: at(fullText, "LV72EPC") },
+    ])
+
+    assert.deepEqual(unlocated, [])
+    const found = (label: string) => piiData.filter((pii) => pii.label === label).map((pii) => [pii.matchType!.split(" ")[0], pii.bbox[1] / LINE_HEIGHT])
+    assert.deepEqual(found("Name"), [["offset", 0], ["fuzzy", 3]])
+    assert.deepEqual(found("Vehicle Registration"), [["offset", 1], ["exact", 2]])
+  })
+
+  it("covers only the characters an offset points at inside a word", async () => {
+    const glued = ["Ref:AB123456C"]
+    const { fullText } = await createStubOcrProvider(glued).recognize("")
+    const { piiData } = await locate(glued, [{ text: "AB123456C", label: "National Insurance Number", offsets: at(fullText, "AB123456C") }])
+    assert.equal(piiData.length, 1)
+    assert.deepEqual(columns(piiData[0]), [4, 9])
+  })
+})
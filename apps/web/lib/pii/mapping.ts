@@ -0,0 +1,470 @@
+import { distance } from "fastest-levenshtein"
+import { createLogger } from "@/lib/logging"
+import { getBounds } from "@/lib/redaction/transform"
+import { getCharacterSpans, quadsToPolygon, sliceQuad, toQuad, type Quad } from "./geometry"
+import type { PiiData, PiiItem, TextRange, WordInfo } from "./types"
+
+const log = createLogger("pii-mapping")
+
+// generic function to create search variants for any PII text
+export const createSearchVariants = (piiText: string): string[][] => {
+  const variants: string[][] = []
+  
+  // normalize the original text
+  const normalizedWords = piiText
+    .trim()
+    .split(/\s+/)
+    .map(word => word.replace(/[^a-zA-Z0-9]/g, ""))
+  
+  // variant 1: Original normalized words
+  variants.push(normalizedWords)
+  
+  // variant 2: All as one word (remove spaces)
+  if (normalizedWords.length > 1) {
+    variants.push([normalizedWords.join("")])
+  }
+  
+  // variant 3: Add spaces between letters and numbers (for single words like AF12HPV)
+  if (normalizedWords.length === 1) {
+    const singleWord = normalizedWords[0]
+    // split on letter-to-number and number-to-letter boundaries
+    const spacedVariant = singleWord
+      .replace(/([A-Za-z])(\d)/g, "$1 $2")  // letter followed by number
+      .replace(/(\d)([A-Za-z])/g, "$1 $2")  // number followed by letter
+      .split(/\s+/)
+      .map(word => word.replace(/[^a-zA-Z0-9]/g, ""))
+    
+    if (spacedVariant.length > 1) {
+      variants.push(spacedVariant)
+    }
+  }
+  
+  // variant 4: Handle hyphens properly (especially for addresses like CLACTON-ON-SEA)
+  const expandHyphens = piiText
+    .replace(/-/g, " ")  // replace hyphens with spaces
+    .replace(/[,_.]/g, " ")  // replace other punctuation with spaces
+    .trim()
+    .split(/\s+/)
+    .map(word => word.replace(/[^a-zA-Z0-9]/g, ""))
+    .filter(word => word.length > 0)  // remove empty strings
+  
+  if (expandHyphens.length !== normalizedWords.length || 
+      JSON.stringify(expandHyphens) !== JSON.stringify(normalizedWords)) {
+    variants.push(expandHyphens)
+  }
+  
+  // variant 5: Generic character boundary splitting for any alphanumeric patterns
+  if (normalizedWords.length === 1 && normalizedWords[0].length >= 4) {
+    const word = normalizedWords[0]
+    const possibleSplits = []
+    
+    // try splitting at different letter/number boundaries
+    for (let i = 1; i < word.length; i++) {
+      const char1 = word[i-1]
+      const char2 = word[i]
+      
+      // split at letter->number or number->letter boundaries
+      if ((char1.match(/[A-Z]/i) && char2.match(/\d/)) || 
+          (char1.match(/\d/) && char2.match(/[A-Z]/i))) {
+        possibleSplits.push([word.slice(0, i), word.slice(i)])
+      }
+      
+      // for longer strings, try 3-way splits at reasonable positions
+      if (word.length >= 6 && i >= 2 && i <= word.length - 2) {
+        for (let j = i + 2; j < word.length; j++) {
+          const char3 = word[j-1]
+          const char4 = word[j]
+          
+          if ((char3.match(/[A-Z]/i) && char4.match(/\d/)) || 
+              (char3.match(/\d/) && char4.match(/[A-Z]/i))) {
+            possibleSplits.push([word.slice(0, i), word.slice(i, j), word.slice(j)])
+            break // only try one 3-way split per starting position
+          }
+        }
+      }
+    }
+    
+    // add unique splits to variants
+    possibleSplits.forEach(split => {
+      if (split.length > 1 && split.every(part => part.length > 0)) {
+        variants.push(split)
+      }
+    })
+  }
+  
+  // remove duplicates
+  const uniqueVariants = variants.filter((variant, index) => 
+    variants.findIndex(v => JSON.stringify(v) === JSON.stringify(variant)) === index
+  )
+  
+  return uniqueVariants
+}
+
+// an OCR word prepared for matching: text reduced to letters and digits, with where each of them sits in the box
+type MappedWord = WordInfo & {
+  rawText: string // the word as OCR read it, punctuation included
+  characterSpans: [number, number][]
+}
+
+// which characters of a word slice a match covers; start is an offset into the first word's
+// normalized text and end (exclusive) into the last word's, whole words when left out
+type CharacterRange = {
+  start: number
+  end: number
+}
+
+// helper function to create a PII match object, with a polygon around exactly the matched characters
+const createPiiMatch = (
+  wordSlice: MappedWord[],
+  id: number,
+  pii: PiiItem,
+  confidence: number,
+  matchType: string,
+  range?: CharacterRange,
+): PiiData | null => {
+  const wordQuads: Quad[] = []
+  const characters: Quad[] = []
+
+  wordSlice.forEach((word, index) => {
+    const quad = toQuad(word.boundingBox)
+    if (!quad) return
+
+    const from = index === 0 && range ? range.start : 0
+    const to = index === wordSlice.length - 1 && range ? range.end : word.characterSpans.length
+    const spans = word.characterSpans.slice(from, to)
+
+    // whole words keep their full box so punctuation stuck to them is still covered
+    const isWholeWord = from === 0 && to === word.characterSpans.length
+    wordQuads.push(isWholeWord || spans.length === 0 ? quad : sliceQuad(quad, spans[0][0], spans[spans.length - 1][1]))
+    characters.push(...spans.map(([start, end]) => sliceQuad(quad, start, end)))
+  })
+
+  if (wordQuads.length === 0) return null
+
+  const vertices = quadsToPolygon(wordQuads)
+  return {
+    id,
+    label: pii.label,
+    text: pii.text,
+    bbox: getBounds(vertices),
+    vertices,
+    characters,
+    redacted: true,
+    confidence,
+    matchType,
+    source: pii.source,
+  }
+}
+
+const countAlphanumeric = (text: string) => text.replace(/[^a-zA-Z0-9]/g, "").length
+
+// the words a stretch of the OCR text covers, and the characters of the first and last word it starts and ends at
+const findWordsAtOffsets = (range: TextRange, words: WordInfo[], wordMap: MappedWord[], wordOffsets: (TextRange | null)[]) => {
+  const indexes = wordOffsets.flatMap((offset, index) => (offset && offset.start < range.end && range.start < offset.end ? [index] : []))
+  if (indexes.length === 0) return null
+
+  const first = indexes[0]
+  const last = indexes[indexes.length - 1]
+  const characters: CharacterRange = {
+    start: countAlphanumeric(words[first].text.slice(0, Math.max(0, range.start - wordOffsets[first]!.start))),
+    end: countAlphanumeric(words[last].text.slice(0, range.end - wordOffsets[last]!.start)),
+  }
+  return { positions: indexes, words: wordMap.slice(first, last + 1), characters }
+}
+
+// shorter PII would match inside too many unrelated words
+const MIN_PARTIAL_MATCH_LENGTH = 4
+
+const isAlphanumeric = (char: string | undefined) => char !== undefined && /[a-zA-Z0-9]/.test(char)
+
+// where the index-th letter or digit of a word sits in its raw OCR text
+const toRawIndex = (rawText: string, index: number) => {
+  let seen = -1
+  for (let i = 0; i < rawText.length; i++) {
+    if (isAlphanumeric(rawText[i]) && ++seen === index) return i
+  }
+  return -1
+}
+
+// a partial match has to start and end where the OCR text does, or at punctuation: "john@x.com" in
+// "Email:john@x.com" counts, "Anna" in "Annandale" does not
+const isAtWordBoundary = (first: MappedWord, start: number, last: MappedWord, end: number) => {
+  const rawStart = toRawIndex(first.rawText, start)
+  const rawEnd = toRawIndex(last.rawText, end - 1)
+  return rawStart !== -1 && rawEnd !== -1 && !isAlphanumeric(first.rawText[rawStart - 1]) && !isAlphanumeric(last.rawText[rawEnd + 1])
+}
+
+// find PII glued to other text inside OCR words, such as the address in "Email:john@x.com",
+// and return the character range it covers so only that part is redacted. the match must not run on into
+// other letters or digits at either end
+const findPartialWordMatches = (piiText: string, wordMap: MappedWord[], foundPositions: Set<number>) => {
+  const needle = piiText.replace(/[^a-zA-Z0-9]/g, "").toLowerCase()
+  const matches: Array<{ position: number, words: MappedWord[], range: CharacterRange }> = []
+  if (needle.length < MIN_PARTIAL_MATCH_LENGTH) return matches
+
+  const lowered = wordMap.map((word) => word.text.toLowerCase())
+  for (let i = 0; i < wordMap.length; i++) {
+    if (foundPositions.has(i) || !lowered[i]) continue
+
+    let joined = ""
+    for (let j = i; j < Math.min(wordMap.length, i + 5) && !foundPositions.has(j); j++) {
+      joined += lowered[j]
+      const offset = joined.indexOf(needle)
+      if (offset === -1) continue
+
+      // the match has to start in word i, later starts are picked up from their own word
+      if (offset >= lowered[i].length) break
+
+      const end = offset + needle.length - (joined.length - lowered[j].length)
+      if (!isAtWordBoundary(wordMap[i], offset, wordMap[j], end)) break
+
+      matches.push({ position: i, words: wordMap.slice(i, j + 1), range: { start: offset, end } })
+      for (let k = i; k <= j; k++) foundPositions.add(k)
+      break
+    }
+  }
+
+  return matches
+}
+
+// flexible matching for multi-word PII that might be spread across lines
+const findFlexibleMatches = (searchVariants: string[][], wordMap: MappedWord[], foundPositions: Set<number>) => {
+  const matches: Array<{
+    words: MappedWord[],
+    confidence: number,
+    matchedWords: string[],
+    positions: number[]
+  }> = []
+  
+  for (const variant of searchVariants) {
+    if (variant.length < 3) continue // only for multi-word patterns
+    
+    // find all occurrences of each word in the variant
+    const wordPositions: number[][] = variant.map(targetWord => 
+      wordMap
+        .map((word, index) => ({ word: word.text, index }))
+        .filter(item => item.word === targetWord)
+        .map(item => item.index)
+    )
+    
+    // check if we found all words
+    if (wordPositions.some(positions => positions.length === 0)) {
+      log.debug("Variant has words missing from the OCR output", { variant })
+      continue
+    }
+    
+    // try to find combinations where words appear in reasonable proximity
+    const findCombinations = (wordIndex: number, currentCombination: number[], usedPositions: Set<number>): void => {
+      if (wordIndex >= variant.length) {
+        // we've matched all words, check if it's a valid combination
+        if (currentCombination.length === variant.length) {
+          // calculate span (distance from first to last word)
+          const minPos = Math.min(...currentCombination)
+          const maxPos = Math.max(...currentCombination)
+          const span = maxPos - minPos + 1
+          
+          // only accept if words are within reasonable distance (e.g., within 20 words)
+          if (span <= 20 && !currentCombination.some(pos => foundPositions.has(pos))) {
+            const matchedWords = currentCombination.map(pos => wordMap[pos])
+            const confidence = Math.max(0.7, 1 - (span / 100)) // Lower confidence for widely spread words
+            
+            matches.push({
+              words: matchedWords,
+              confidence,
+              matchedWords: variant,
+              positions: currentCombination
+            })
+          }
+        }
+        return
+      }
+      
+      // try each position for the current word
+      for (const position of wordPositions[wordIndex]) {
+        if (!usedPositions.has(position)) {
+          const newUsedPositions = new Set(usedPositions)
+          newUsedPositions.add(position)
+          findCombinations(wordIndex + 1, [...currentCombination, position], newUsedPositions)
+        }
+      }
+    }
+    
+    findCombinations(0, [], new Set())
+  }
+  
+  // return best matches (highest confidence, prefer more compact spans)
+  return matches
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 3) // limit to top 3 matches to avoid too many duplicates
+}
+
+// fuzzy matching function for OCR errors
+export const fuzzyMatchPII = (piiText: string, words: WordInfo[], threshold = 0.8): Array<{position: number, confidence: number, matchedWords: number}> => {
+  const matches: Array<{position: number, confidence: number, matchedWords: number}> = []
+  const normalizedPii = piiText.replace(/[^a-zA-Z0-9]/g, "").toLowerCase()
+  
+  // try matching with different word spans (1-5 words)
+  for (let span = 1; span <= Math.min(5, words.length); span++) {
+    for (let i = 0; i <= words.length - span; i++) {
+      const candidate = words
+        .slice(i, i + span)
+        .map(w => w.text.replace(/[^a-zA-Z0-9]/g, "").toLowerCase())
+        .join("")
+      
+      if (candidate.length > 0) {
+        const similarity = 1 - (distance(normalizedPii, candidate) / Math.max(normalizedPii.length, candidate.length))
+        
+        if (similarity >= threshold) {
+          matches.push({
+            position: i,
+            confidence: similarity,
+            matchedWords: span
+          })
+        }
+      }
+    }
+  }
+  
+  // sort by confidence descending and remove overlapping matches
+  return matches
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter((match, index, arr) => {
+      // remove overlapping matches (keep the one with higher confidence)
+      return !arr.slice(0, index).some(prev => 
+        Math.abs(prev.position - match.position) < Math.max(prev.matchedWords, match.matchedWords)
+      )
+    })
+}
+
+// helper function to map PII phrases to their bounding boxes. every item is searched for everywhere; the
+// occurrences its offsets point at are placed exactly first (wordOffsets gives each word's place in the OCR
+// text), so a repeat that is formatted differently or misread by OCR is still found by the search. anything that cannot be found among the OCR words is returned as unlocated rather than dropped, so the
+// reviewer can still cover it by hand. textAngle is the way the page's text runs as OCR reported it, kept on each
+// match so a label across several lines follows sideways text too
+export const mapPiiToBbox = (
+  piiList: PiiItem[],
+  words: WordInfo[],
+  wordOffsets?: (TextRange | null)[],
+  textAngle?: number,
+) => {
+  const piiData: PiiData[] = []
+  const unlocated: PiiItem[] = []
+  let piiIdCounter = 0
+
+  // normalize word texts for matching
+  const wordMap: MappedWord[] = words.map((w) => ({
+    text: w.text.replace(/[^a-zA-Z0-9]/g, ""),
+    rawText: w.text,
+    boundingBox: w.boundingBox,
+    characterSpans: getCharacterSpans(w),
+  }))
+
+  piiList.forEach((pii) => {
+    let instanceCount = 0
+    const foundPositions = new Set<number>()
+
+    // step 0: the occurrences the detector saw in the text, down to the characters it covered
+    for (const range of (wordOffsets && pii.offsets) ?? []) {
+      const occurrence = findWordsAtOffsets(range, words, wordMap, wordOffsets!)
+      const match = occurrence && createPiiMatch(occurrence.words, piiIdCounter++, pii, 1.0, `offset ${range.start}-${range.end}`, occurrence.characters)
+      if (!occurrence || !match) continue
+
+      piiData.push(match)
+      instanceCount++
+      occurrence.positions.forEach((position) => foundPositions.add(position))
+    }
+
+    // Create search variants for the PII text
+    const searchVariants = createSearchVariants(pii.text)
+    log.debug("Searching for all instances of PII", { label: pii.label, text: pii.text, searchVariants })
+
+    // step 1: Try exact matching with variants
+    
+    for (const variant of searchVariants) {
+      for (let i = 0; i <= wordMap.length - variant.length; i++) {
+        if (foundPositions.has(i)) continue // skip already found positions
+        
+        const wordSlice = wordMap.slice(i, i + variant.length)
+        const sliceText = wordSlice.map((s) => s.text)
+
+        if (JSON.stringify(sliceText) === JSON.stringify(variant)) {
+          foundPositions.add(i)
+          
+          // words without a usable box give no match, and only a placed match counts as found
+          const match = createPiiMatch(wordSlice, piiIdCounter++, pii, 1.0, `exact variant: ${JSON.stringify(variant)}`)
+          if (match) {
+            piiData.push(match)
+            instanceCount++
+            log.debug("Found exact instance", { label: pii.label, instance: instanceCount, position: i, variant })
+          }
+          
+          // mark surrounding positions to avoid overlaps
+          for (let j = 0; j < variant.length; j++) {
+            foundPositions.add(i + j)
+          }
+        }
+      }
+    }
+    
+    // step 1b: PII stuck to neighbouring text inside a word, matched down to the character
+    for (const partialMatch of findPartialWordMatches(pii.text, wordMap, foundPositions)) {
+      const match = createPiiMatch(partialMatch.words, piiIdCounter++, pii, 0.95, `partial word (characters ${partialMatch.range.start}-${partialMatch.range.end})`, partialMatch.range)
+      if (match) {
+        piiData.push(match)
+        instanceCount++
+        log.debug("Found partial word instance", { label: pii.label, instance: instanceCount, position: partialMatch.position })
+      }
+    }
+
+    // Step 2: Try flexible multi-word matching for addresses and multi-line PII
+    if (searchVariants.some(variant => variant.length >= 4) && instanceCount === 0) {
+      log.debug("Trying flexible multi-word matching", { label: pii.label, text: pii.text })
+      const flexibleMatches = findFlexibleMatches(searchVariants, wordMap, foundPositions)
+      
+      for (const flexMatch of flexibleMatches) {
+        const match = createPiiMatch(flexMatch.words, piiIdCounter++, pii, flexMatch.confidence, `flexible match (${flexMatch.matchedWords.length} words)`)
+        
+        if (match) {
+          piiData.push(match)
+          instanceCount++
+          log.debug("Found flexible instance", { label: pii.label, instance: instanceCount, matchedWordCount: flexMatch.matchedWords.length })
+          
+          // mark all matched positions
+          flexMatch.positions.forEach(pos => foundPositions.add(pos))
+        }
+      }
+    }
+    
+    // step 3: Try fuzzy matching for OCR errors (only if we found few matches)
+    if (instanceCount < 2) {
+      log.debug("Trying fuzzy matching", { label: pii.label, text: pii.text, exactMatches: instanceCount })
+      const fuzzyMatches = fuzzyMatchPII(pii.text, wordMap, 0.85)
+      
+      for (const fuzzyMatch of fuzzyMatches) {
+        if (foundPositions.has(fuzzyMatch.position)) continue // Skip already found positions
+        
+        const wordSlice = wordMap.slice(fuzzyMatch.position, fuzzyMatch.position + fuzzyMatch.matchedWords)
+        const match = createPiiMatch(wordSlice, piiIdCounter++, pii, fuzzyMatch.confidence, `fuzzy match (${(fuzzyMatch.confidence * 100).toFixed(1)}%)`)
+        
+        if (match) {
+          piiData.push(match)
+          instanceCount++
+          log.debug("Found fuzzy instance", { label: pii.label, instance: instanceCount, position: fuzzyMatch.position, confidence: fuzzyMatch.confidence })
+          
+          // mark surrounding positions to avoid overlaps
+          for (let j = 0; j < fuzzyMatch.matchedWords; j++) {
+            foundPositions.add(fuzzyMatch.position + j)
+          }
+        }
+      }
+    }
+    
+    log.debug("Finished searching for PII", { label: pii.label, instances: instanceCount })
+    if (instanceCount === 0) {
+      log.warn("Could not locate PII on the image", { label: pii.label, source: pii.source, text: pii.text })
+      unlocated.push(pii)
+    }
+  })
+
+  return { piiData: textAngle ? piiData.map((pii) => ({ ...pii, textAngle })) : piiData, unlocated }
+} 
\ No newline at end of file
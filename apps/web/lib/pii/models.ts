@@ -0,0 +1,118 @@
+import { createOpenAI, openai } from "@ai-sdk/openai"
+import type { LanguageModel } from "ai"
+import { hashCacheKey } from "@/lib/cache"
+import { PipelineError } from "@/lib/errors"
+import { createRecordingLanguageModel, createReplayLanguageModel, getRecordingMode, readRecording, writeRecording } from "@/lib/recording"
+
+// "openai" is the OpenAI API; "openai-compatible" is any server speaking the same chat completions API,
+// e.g. Ollama, llama.cpp, vLLM or LM Studio on localhost, or a hosted provider's compatible endpoint
+export type ClassifierProviderName = "openai" | "openai-compatible"
+
+// how a model is asked for PII, tuned per model family
+export type ClassifierModelProfile = {
+  structuredOutputs: boolean // send the schema as a JSON schema response format instead of describing it in the prompt
+  instructions: string[] // extra lines added to the prompt before the text
+  temperature?: number
+  chunkSize: number // characters of OCR text sent in one request; longer text is split
+}
+
+export type ClassifierModel = {
+  id: string // provider and model name, part of the cache key
+  model: LanguageModel
+  profile: ClassifierModelProfile
+}
+
+const DEFAULT_MODELS: Record<ClassifierProviderName, string | undefined> = {
+  openai: "gpt-4o",
+  "openai-compatible": undefined, // no sensible default for a local server
+}
+
+const CLASSIFIER_PROVIDERS: Record<ClassifierProviderName, (modelName: string) => LanguageModel> = {
+  openai: (modelName) => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new PipelineError("configuration_error", "Server configuration error: Missing OpenAI API key.")
+    }
+    return openai(modelName, { structuredOutputs: getModelProfile(modelName).structuredOutputs })
+  },
+  "openai-compatible": (modelName) => {
+    const baseURL = process.env.PII_MODEL_BASE_URL
+    if (!baseURL) {
+      throw new PipelineError("configuration_error", "Server configuration error: Missing PII_MODEL_BASE_URL for the OpenAI-compatible model.")
+    }
+    // local servers usually ignore the key, but the client always sends one
+    const provider = createOpenAI({ baseURL, apiKey: process.env.PII_MODEL_API_KEY ?? "none", compatibility: "compatible", name: "openai-compatible" })
+    return provider(modelName, { structuredOutputs: getModelProfile(modelName).structuredOutputs })
+  },
+}
+
+// small open models copy text less faithfully and drift from the JSON shape, so they get a stricter prompt
+const SMALL_MODEL_INSTRUCTIONS = [
+  "Copy each item's text exactly as it appears in the text, character for character. Do not correct, reformat or translate it.",
+  "List each distinct item once. If nothing matches, return an empty list.",
+  "Reply with a single JSON object and nothing else: no explanation and no code fences.",
+]
+
+// first match wins; the last entry covers every other model
+const MODEL_PROFILES: { match: RegExp, profile: ClassifierModelProfile }[] = [
+  { match: /^(gpt-4o|gpt-4\.1|o\d)/, profile: { structuredOutputs: true, instructions: [], chunkSize: 12_000 } },
+  { match: /llama|mistral|mixtral|qwen|phi|gemma|deepseek/i, profile: { structuredOutputs: false, instructions: SMALL_MODEL_INSTRUCTIONS, temperature: 0, chunkSize: 4_000 } },
+  { match: /.*/, profile: { structuredOutputs: false, instructions: [], temperature: 0, chunkSize: 6_000 } },
+]
+
+export const getModelProfile = (modelName: string): ClassifierModelProfile =>
+  MODEL_PROFILES.find(({ match }) => match.test(modelName))!.profile
+
+export const isClassifierProviderName = (name: string): name is ClassifierProviderName =>
+  Object.prototype.hasOwnProperty.call(CLASSIFIER_PROVIDERS, name)
+
+// an answer kept by UPSTREAM_RECORDING=record
+type RecordedAnswer = { model: string, text: string }
+
+// create the provider's model, or with UPSTREAM_RECORDING answer from recorded answers without creating it (so
+// no key or server is needed), or keep every answer it gives. answers are keyed by model and prompt
+const createModel = (providerName: ClassifierProviderName, modelName: string, id: string): LanguageModel => {
+  const mode = getRecordingMode()
+  const keyFor = (promptKey: string) => hashCacheKey(id, promptKey)
+
+  if (mode === "replay") {
+    return createReplayLanguageModel(
+      { provider: providerName, modelId: modelName, structuredOutputs: getModelProfile(modelName).structuredOutputs },
+      async (promptKey) => (await readRecording<RecordedAnswer>("openai", keyFor(promptKey))).text,
+    )
+  }
+
+  const model = CLASSIFIER_PROVIDERS[providerName](modelName)
+  if (mode === "off") return model
+  return createRecordingLanguageModel(model, (promptKey, text) =>
+    writeRecording("openai", keyFor(promptKey), { model: id, text } satisfies RecordedAnswer))
+}
+
+let overrideModel: ClassifierModel | undefined
+
+// use this model instead of the configured one, e.g. replayed answers in the evaluation harness.
+// calling it without a model goes back to PII_MODEL_PROVIDER and PII_MODEL
+export const setClassifierModel = (model?: ClassifierModel) => {
+  overrideModel = model
+}
+
+// resolve the classification model from PII_MODEL_PROVIDER (default openai) and PII_MODEL
+export const getClassifierModel = (): ClassifierModel => {
+  if (overrideModel) return overrideModel
+
+  const providerName = process.env.PII_MODEL_PROVIDER ?? "openai"
+  if (!isClassifierProviderName(providerName)) {
+    throw new PipelineError("configuration_error", `Server configuration error: Unknown PII model provider "${providerName}".`)
+  }
+
+  const modelName = process.env.PII_MODEL ?? DEFAULT_MODELS[providerName]
+  if (!modelName) {
+    throw new PipelineError("configuration_error", `Server configuration error: Set PII_MODEL to the model to use with the ${providerName} provider.`)
+  }
+
+  const id = `${providerName}:${modelName}`
+  return {
+    id,
+    model: createModel(providerName, modelName, id),
+    profile: getModelProfile(modelName),
+  }
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { combineOffsets, detectPiiWithRules, mergePiiResults } from "./rules"
+
+const found = (label: string, text: string) => detectPiiWithRules(text).filter((pii) => pii.label === label).map((pii) => pii.text)
+const sortCodes = (text: string) => found("Sort Code", text)
+
+describe("sort codes", () => {
+  it("finds labelled sort codes", () => {
+    assert.deepEqual(sortCodes("Sort code: 20-00-00 Account number: 12345678"), ["20-00-00"])
+    assert.deepEqual(sortCodes("Sort Code 200000"), ["200000"])
+  })
+
+  it("leaves dd-mm-yy dates alone", () => {
+    assert.deepEqual(sortCodes("Date of contravention: 14-03-24\nDate of issue: 21-03-24"), [])
+  })
+})
+
+describe("card numbers", () => {
+  it("finds numbers that pass the Luhn check", () => {
+    assert.deepEqual(found("Card Number", "Paid with 4111 1111 1111 1111"), ["4111 1111 1111 1111"])
+    assert.deepEqual(found("Card Number", "Card 5500-0000-0000-0004"), ["5500-0000-0000-0004"])
+  })
+
+  it("ignores long numbers that fail it", () => {
+    assert.deepEqual(found("Card Number", "Paid with 4111 1111 1111 1112"), [])
+  })
+})
+
+describe("NHS numbers", () => {
+  it("finds numbers with a valid modulus 11 check digit", () => {
+    assert.deepEqual(found("NHS Number", "NHS No 943 476 5919"), ["943 476 5919"])
+    assert.deepEqual(found("NHS Number", "NHS No 9434765919"), ["9434765919"])
+  })
+
+  it("ignores ten digits with the wrong check digit", () => {
+    assert.deepEqual(found("NHS Number", "NHS No 943 476 5918"), [])
+  })
+})
+
+describe("National Insurance numbers", () => {
+  it("finds spaced and unspaced numbers", () => {
+    assert.deepEqual(found("National Insurance Number", "NI: JG 12 34 56 C"), ["JG 12 34 56 C"])
+    assert.deepEqual(found("National Insurance Number", "NI: AB123456D"), ["AB123456D"])
+  })
+
+  it("ignores prefixes that are never issued", () => {
+    assert.deepEqual(found("National Insurance Number", "GB123456A DA123456A QQ123456C AB123456E"), [])
+  })
+})
+
+describe("phone numbers", () => {
+  it("finds national and international UK numbers", () => {
+    assert.deepEqual(found("Phone Number", "Call 01206 123456 or +44 7700 900123"), ["01206 123456", "+44 7700 900123"])
+  })
+
+  it("ignores numbers too short or too long to dial", () => {
+    assert.deepEqual(found("Phone Number", "Ref 0123 456 and 012345678901"), [])
+  })
+})
+
+describe("email addresses", () => {
+  it("finds addresses with a domain", () => {
+    assert.deepEqual(found("Email Address", "Reply to jane.smith+pcn@example.co.uk."), ["jane.smith+pcn@example.co.uk"])
+  })
+
+  it("ignores addresses without a top level domain", () => {
+    assert.deepEqual(found("Email Address", "jane@localhost and @example.com"), [])
+  })
+})
+
+describe("mergePiiResults", () => {
+  it("keeps the first label for an identifier and every offset it was seen at", () => {
+    const merged = mergePiiResults(
+      [{ text: "LV72 EPC", label: "Vehicle Registration", source: "rules", offsets: [{ start: 10, end: 18 }] }],
+      [
+        { text: "lv72epc", label: "Reference", source: "model", offsets: [{ start: 10, end: 18 }, { start: 40, end: 47 }] },
+        { text: "Jane Smith", label: "Name", source: "model" },
+      ],
+    )
+    assert.deepEqual(merged, [
+      { text: "LV72 EPC", label: "Vehicle Registration", source: "rules", offsets: [{ start: 10, end: 18 }, { start: 40, end: 47 }] },
+      { text: "Jane Smith", label: "Name", source: "model" },
+    ])
+  })
+
+  it("keeps offsets when a later duplicate has none", () => {
+    const merged = mergePiiResults(
+      [{ text: "Jane Smith", label: "Name", offsets: [{ start: 0, end: 10 }] }],
+      [{ text: "Jane Smith", label: "Name" }],
+    )
+    assert.deepEqual(merged[0].offsets, [{ start: 0, end: 10 }])
+  })
+
+  it("takes offsets from whichever side has them", () => {
+    assert.equal(combineOffsets(undefined, undefined), undefined)
+    assert.deepEqual(combineOffsets(undefined, [{ start: 1, end: 2 }]), [{ start: 1, end: 2 }])
+  })
+})
@@ -0,0 +1,175 @@
+import type { PiiItem, TextRange } from "./types"
+
+// a deterministic detector for one kind of structured identifier
+export type PiiRule = {
+  label: string
+  pattern: RegExp // must be global
+  group?: number // capture group holding the PII, defaults to the whole match
+  validate?: (value: string) => boolean
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, "")
+
+// Luhn checksum used by all major card schemes
+const passesLuhn = (value: string) => {
+  const digits = digitsOf(value)
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// UK numbers are 10 digits after the trunk prefix (0 or +44), a few older ranges have 9
+const isUkPhoneNumber = (value: string) => {
+  const national = digitsOf(value).replace(/^44/, "").replace(/^0/, "")
+  return national.length === 9 || national.length === 10
+}
+
+// NHS numbers end in a modulus 11 check digit
+const isNhsNumber = (value: string) => {
+  const digits = digitsOf(value)
+  if (digits.length !== 10) return false
+  const sum = [...digits.slice(0, 9)].reduce((total, digit, i) => total + Number(digit) * (10 - i), 0)
+  const check = 11 - (sum % 11)
+  return check !== 10 && (check === 11 ? 0 : check) === Number(digits[9])
+}
+
+const DATE = String.raw`\d{1,2}[\/.\-]\d{1,2}[\/.\-]\d{2,4}|\d{1,2}(?:st|nd|rd|th)?\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?,?\s+\d{4}`
+
+export const PII_RULES: PiiRule[] = [
+  {
+    label: "Email Address",
+    pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+  },
+  {
+    label: "Postcode",
+    pattern: /\b(?:GIR ?0AA|[A-PR-UWYZ][A-HK-Y]?\d[A-Z\d]? ?\d[ABD-HJLNP-UW-Z]{2})\b/g,
+  },
+  {
+    label: "Phone Number",
+    pattern: /(?:\+44 ?(?:\(0\) ?)?|\b0)\d(?:[ -]?\d){7,9}\b/g,
+    validate: isUkPhoneNumber,
+  },
+  {
+    // current format (2001 onwards), e.g. LV72 EPC
+    label: "Vehicle Registration",
+    pattern: /\b[A-HJ-PR-Y]{2}\d{2} ?[A-HJ-PR-Z]{3}\b/g,
+  },
+  {
+    // prefix format (1983-2001), e.g. A123 BCD
+    label: "Vehicle Registration",
+    pattern: /\b[A-HJ-NP-Y]\d{1,3} ?[A-HJ-PR-Y]{3}\b/g,
+  },
+  {
+    // suffix format (1963-1983), e.g. ABC 123D
+    label: "Vehicle Registration",
+    pattern: /\b[A-HJ-PR-Y]{3} ?\d{1,3} ?[A-HJ-NP-Y]\b/g,
+  },
+  {
+    // most councils issue two letters followed by eight digits, e.g. ZY10241472
+    label: "PCN Number",
+    pattern: /\b[A-Z]{2}\d{8}\b/g,
+  },
+  {
+    // other formats are only trusted when labelled as a PCN
+    label: "PCN Number",
+    pattern: /\b(?:PCN|Penalty Charge Notice)(?: (?:No\.?|Number|Ref(?:erence)?))?[:\s]+([A-Z0-9]{8,12})\b/gi,
+    group: 1,
+    validate: (value) => /\d/.test(value),
+  },
+  {
+    label: "National Insurance Number",
+    pattern: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    // only labelled: a bare dd-dd-dd is as often a dd-mm-yy date, e.g. a contravention or issue date
+    label: "Sort Code",
+    pattern: /\bsort code[:\s]+(\d{2}[ -]?\d{2}[ -]?\d{2})\b/gi,
+    group: 1,
+  },
+  {
+    label: "Account Number",
+    pattern: /\b(?:account|acc(?:t)?\.?)(?: (?:no\.?|number))?[:\s]+(\d{8})\b/gi,
+    group: 1,
+  },
+  {
+    label: "Card Number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) => passesLuhn(value),
+  },
+  {
+    label: "NHS Number",
+    pattern: /\b\d{3} ?\d{3} ?\d{4}\b/g,
+    validate: isNhsNumber,
+  },
+  {
+    label: "Tax Code",
+    pattern: /\btax code[:\s]+((?:[SC]?\d{1,4}[LMNT]|BR|D0|D1|NT|0T|K\d{1,4})(?: ?(?:W1|M1|X))?)\b/gi,
+    group: 1,
+  },
+  {
+    // only amounts explicitly marked as pay, never fines or fees
+    label: "Salary",
+    pattern: /\b(?:salary|gross pay|net pay|annual pay|basic pay|hourly rate|bonus)[:\s]+(£ ?\d[\d,]*(?:\.\d{2})?)/gi,
+    group: 1,
+  },
+  {
+    // only dates explicitly marked as a date of birth, never service or contravention dates
+    label: "Date of Birth",
+    pattern: new RegExp(String.raw`\b(?:date of birth|d\.?o\.?b\.?|born(?: on)?)[:\s]+(${DATE})`, "gi"),
+    group: 1,
+  },
+]
+
+// normalized form used to treat "LV72 EPC" and "lv72epc" as the same identifier
+const normalizePiiText = (text: string) => text.replace(/[^a-zA-Z0-9]/g, "").toLowerCase()
+
+// every offset either list has, once. offsets only add exact placements, so a detector that found an item
+// without them takes nothing away from one that found it with them
+export const combineOffsets = (first?: TextRange[], second?: TextRange[]) => {
+  if (!first || !second) return first ?? second
+  const seen = new Set(first.map(({ start, end }) => `${start}:${end}`))
+  return [...first, ...second.filter(({ start, end }) => !seen.has(`${start}:${end}`))]
+}
+
+// merge several detector outputs, keeping the first occurrence (and label) of each identifier and every offset
+// any of them saw it at
+export const mergePiiResults = (...lists: PiiItem[][]): PiiItem[] => {
+  const merged = new Map<string, PiiItem>()
+
+  for (const pii of lists.flat()) {
+    const key = normalizePiiText(pii.text)
+    if (!key) continue
+
+    const existing = merged.get(key)
+    if (!existing) {
+      merged.set(key, pii)
+    } else if (pii.offsets) {
+      merged.set(key, { ...existing, offsets: combineOffsets(existing.offsets, pii.offsets) })
+    }
+  }
+
+  return [...merged.values()]
+}
+
+// run every rule over the text and return the same { text, label } shape as the LLM
+export const detectPiiWithRules = (text: string, rules: PiiRule[] = PII_RULES): PiiItem[] => {
+  const found: PiiItem[] = []
+
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = (rule.group ? match[rule.group] : match[0])?.trim()
+      if (!value) continue
+      if (rule.validate && !rule.validate(value)) continue
+      found.push({ text: value, label: rule.label, source: "rules" })
+    }
+  }
+
+  return mergePiiResults(found)
+}
@@ -0,0 +1,56 @@
+import { getBounds } from "@/lib/redaction/transform"
+import type { Point, WordInfo } from "./types"
+
+// a run of OCR words matching a search, with the rectangle that covers them
+export type OcrSearchHit = {
+  start: number // index of the first matched word
+  text: string
+  vertices: Point[]
+}
+
+// longest run of words a single hit can span, enough for an address split over a few lines
+const MAX_HIT_WORDS = 12
+const MAX_HITS = 20
+
+// compare on letters and digits only, so "LV72 EPC", "lv72epc" and "LV72-EPC" all match
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+const coverWords = (words: WordInfo[]): Point[] | null => {
+  const points = words
+    .flatMap((word) => word.boundingBox?.vertices ?? [])
+    .filter((v) => typeof v.x === "number" && typeof v.y === "number")
+    .map((v) => ({ x: v.x!, y: v.y! }))
+  if (points.length === 0) return null
+
+  const [x, y, width, height] = getBounds(points)
+  return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+}
+
+// find runs of OCR words whose joined text contains the query, for covering PII the detectors could not place
+export const searchOcrWords = (words: WordInfo[], query: string): OcrSearchHit[] => {
+  const needle = normalize(query)
+  if (!needle) return []
+
+  const normalized = words.map((word) => normalize(word.text))
+  const hits: OcrSearchHit[] = []
+
+  for (let start = 0; start < words.length && hits.length < MAX_HITS; start++) {
+    let joined = ""
+    for (let end = start; end < Math.min(words.length, start + MAX_HIT_WORDS); end++) {
+      joined += normalized[end]
+      if (!joined.includes(needle)) continue
+
+      // only keep the shortest run, starting at the word where the match begins
+      if (joined.slice(normalized[start].length).includes(needle)) break
+
+      const slice = words.slice(start, end + 1)
+      const vertices = coverWords(slice)
+      if (vertices) {
+        hits.push({ start, text: slice.map((word) => word.text).join(" "), vertices })
+      }
+      break
+    }
+  }
+
+  return hits
+}
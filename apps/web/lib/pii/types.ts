@@ -0,0 +1,78 @@
+import type { RedactionStyle } from "@/lib/redaction/styles"
+
+// shared geometry types, mirroring the shape Google Vision returns
+export type Vertex = {
+  x?: number | null
+  y?: number | null
+}
+
+export type BoundingBox = {
+  vertices?: Vertex[] | null
+}
+
+// a single character (or ligature) as recognised by OCR
+export type SymbolInfo = {
+  text: string
+  boundingBox?: BoundingBox | null
+}
+
+export type WordInfo = {
+  text: string
+  boundingBox?: BoundingBox | null
+  symbols?: SymbolInfo[] // character-level boxes, when the OCR provider returns them
+}
+
+// a resolved vertex, as used by the client renderer
+export type Point = {
+  x: number
+  y: number
+}
+
+// which detector produced an item, shown in the sidebar
+export type PiiSource = "model" | "rules" | "visual" | "term-list" | "manual"
+
+// a stretch of the OCR text, as character offsets with end exclusive
+export type TextRange = {
+  start: number
+  end: number
+}
+
+// a single PII string as identified in the OCR text (before it is located on the image)
+export type PiiItem = {
+  text: string
+  label: string
+  source?: PiiSource
+  offsets?: TextRange[] // where in the OCR text it was seen, placed exactly; every other occurrence is still searched for
+}
+
+// open: still needs covering by hand, covered: a box was drawn or found for it, dismissed: the reviewer checked it is not on the page
+export type UnlocatedState = "open" | "covered" | "dismissed"
+
+// a detection whose text could not be found among the OCR words, so it has no box yet
+export type UnlocatedPii = PiiItem & {
+  id: number
+  state: UnlocatedState
+}
+
+// pending: the reviewer must accept (redact) or reject (leave visible) the item before download
+// dismissed items scored below the reviewer's noise threshold: they are kept, unredacted, so the decision is visible
+export type ReviewState = "pending" | "accepted" | "rejected" | "dismissed"
+
+// a located PII match, as sent to the client for rendering
+export type PiiData = {
+  id: number
+  label: string
+  text: string
+  bbox: [number, number, number, number] // [x, y, width, height]
+  vertices?: Point[]
+  characters?: Point[][] // a box per matched letter or digit, for redacting only part of the match
+  revealLast?: number // trailing characters left visible, e.g. the last 4 digits of a card number
+  redacted: boolean
+  flagged?: boolean // the policy only flags this category, so it starts unredacted for the reviewer to decide
+  review?: ReviewState // unset for items that never needed a decision
+  confidence?: number // matching confidence score (0-1)
+  matchType?: string // type of match (exact, fuzzy, etc.)
+  source?: PiiSource
+  style?: RedactionStyle // per-item override of the document's redaction style
+  textAngle?: number // which way the page's text runs, clockwise in degrees, when OCR found it turned
+}
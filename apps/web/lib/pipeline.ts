@@ -0,0 +1,220 @@
+import sizeOf from "image-size"
+import { hashCacheKey, withCache } from "@/lib/cache"
+import { PipelineError, throwIfCancelled } from "@/lib/errors"
+import { toUprightImage } from "@/lib/images/orientation"
+import { createLogger } from "@/lib/logging"
+import { getOcrProvider, type OcrProviderName } from "@/lib/ocr"
+import { getParagraphBoundaries, getWordOffsets } from "@/lib/pii/chunks"
+import { identifyPiiInDocument } from "@/lib/pii/classifier"
+import { mapPiiToBbox } from "@/lib/pii/mapping"
+import { detectPiiWithRules, mergePiiResults } from "@/lib/pii/rules"
+import type { PiiData, PiiItem, WordInfo } from "@/lib/pii/types"
+import { applyPolicyActions, getPolicy, getPolicyRules, type RedactionPolicy } from "@/lib/policies"
+import type { ExifOrientation } from "@/lib/redaction/transform"
+import { applyTermLists } from "@/lib/terms/apply"
+import type { TermEntry } from "@/lib/terms/types"
+import { detectVisualPii, getVisualDetectorNames, type VisualDetectorName } from "@/lib/visual"
+
+const log = createLogger("pipeline")
+
+// "llm" uses the AI model only, "rules" runs the local detectors only (offline), "hybrid" merges both
+export type DetectionMode = "llm" | "rules" | "hybrid"
+
+export const DETECTION_MODES: DetectionMode[] = ["llm", "rules", "hybrid"]
+
+export type ProcessImageOptions = {
+  ocrProvider?: OcrProviderName
+  detectionMode?: DetectionMode
+  visualDetectors?: VisualDetectorName[] // faces, signatures and barcodes/QR codes
+  policy?: string // id of the redaction policy deciding what to detect and what to auto-redact
+  terms?: TermEntry[] // user managed always-redact and never-redact lists
+  cache?: boolean // false to keep nothing from this request on the server, defaults to true
+}
+
+// something that did not run, so the results may be missing items. the reviewer is told before trusting them
+export type DetectionWarning = {
+  code: "model_unavailable" | "visual_detector_failed" | "term_regex_timeout"
+  message: string
+}
+
+// progress reported while an image is processed, in order. partial carries the rule-based matches, already
+// placed on the image, so they can be shown before the model answers; the final result replaces them
+export type PipelineEvent =
+  | { stage: "uploaded", width: number, height: number, orientation: ExifOrientation }
+  | { stage: "ocr", wordCount: number }
+  | { stage: "partial", piiData: PiiData[] }
+  | { stage: "classified", candidateCount: number }
+  | { stage: "mapped", locatedCount: number, unlocatedCount: number }
+
+export type ProcessImageHooks = {
+  onEvent?: (event: PipelineEvent) => void
+  signal?: AbortSignal // aborting stops the pipeline and cancels upstream calls in flight
+}
+
+export type ProcessImageResult = {
+  piiData: PiiData[]
+  unlocatedPii: PiiItem[] // detected in the text but not found on the image, so not redacted
+  words: WordInfo[] // OCR words, for searching the text of the image by hand
+  width: number // upright size, after the EXIF orientation was applied
+  height: number
+  orientation: ExifOrientation // EXIF orientation of the upload, 1 when it had none
+  warnings: DetectionWarning[] // empty unless the results are partial
+}
+
+// helper function to resolve the detection mode: explicit choice first, then PII_DETECTION_MODE env, then hybrid
+const getDetectionMode = (mode?: DetectionMode): DetectionMode => {
+  const requested = mode ?? process.env.PII_DETECTION_MODE ?? "hybrid"
+  if (!DETECTION_MODES.includes(requested as DetectionMode)) {
+    throw new PipelineError("configuration_error", `Server configuration error: Unknown PII detection mode "${requested}".`)
+  }
+  return requested as DetectionMode
+}
+
+// helper function to run the configured PII detectors over the OCR text, limited to the policy's categories.
+// boundaries are where paragraphs start, for splitting long text for the model. rulePii is the rule-based
+// result, computed up front so it can be shown before the model answers.
+// when the model is unavailable the rules are used on their own, with a warning that the results are partial
+const identifyPii = async (
+  text: string,
+  boundaries: number[],
+  mode: DetectionMode,
+  policy: RedactionPolicy,
+  rulePii: PiiItem[],
+  { cache, signal }: { cache: boolean, signal?: AbortSignal },
+): Promise<{ pii: PiiItem[], warnings: DetectionWarning[] }> => {
+  if (mode === "rules") {
+    return { pii: rulePii, warnings: [] }
+  }
+
+  let llmPii: PiiItem[]
+  try {
+    llmPii = await identifyPiiInDocument(text, boundaries, policy, { cache, signal })
+  } catch (error) {
+    if (!(error instanceof PipelineError) || error.code !== "detection_unavailable") throw error
+    log.warn("Falling back to rule-based detection", { mode })
+    return {
+      pii: mode === "llm" ? detectPiiWithRules(text, getPolicyRules(policy)) : rulePii,
+      warnings: [{
+        code: "model_unavailable",
+        message: "AI detection was unavailable, so only the built-in rules were used. Names, addresses and other free text may have been missed.",
+      }],
+    }
+  }
+
+  if (mode === "llm") {
+    return { pii: llmPii, warnings: [] }
+  }
+
+  // model results first so their labels win when both detectors find the same identifier
+  return { pii: mergePiiResults(llmPii, rulePii), warnings: [] }
+}
+
+// helper function to apply the term lists to detected text and place it on the image. skipped lists the regex
+// terms that ran too long
+const locatePii = async (pii: PiiItem[], fullText: string, words: WordInfo[], terms: TermEntry[], textAngle?: number) => {
+  const { pii: listed, skipped } = await applyTermLists(pii, fullText, words, terms)
+  return { ...mapPiiToBbox(listed, words, getWordOffsets(fullText, words), textAngle), skipped }
+}
+
+// helper function to read the size and EXIF orientation of the uploaded image, rejecting anything that is not an image
+const getImageSize = (buffer: Buffer) => {
+  try {
+    const { width, height, orientation } = sizeOf(buffer)
+    if (width && height) return { width, height, orientation }
+  } catch {
+    // fall through to the error below
+  }
+  throw new PipelineError("unsupported_image", "The file is not a supported image.")
+}
+
+// orchestrates OCR, PII detection and bounding box mapping for one image, shared by the server action and the REST API.
+// onEvent reports each stage as it finishes; aborting signal stops the pipeline and cancels upstream calls
+export const processImage = async (
+  imageBase64: string,
+  options: ProcessImageOptions = {},
+  { onEvent, signal }: ProcessImageHooks = {},
+): Promise<ProcessImageResult> => {
+  // 1. resolve the OCR provider (Google Vision by default, Tesseract for fully local processing)
+  const ocrProvider = getOcrProvider(options.ocrProvider)
+  const detectionMode = getDetectionMode(options.detectionMode)
+  const policy = getPolicy(options.policy)
+  const cache = options.cache ?? true
+  const terms = options.terms ?? []
+
+  // 1a. turn the image upright from its EXIF orientation, so every vertex below is in the pixels people see
+  const upload = Buffer.from(imageBase64, "base64")
+  const { buffer, width, height, orientation } = await toUprightImage(upload, getImageSize(upload))
+  if (orientation !== 1) {
+    log.debug("Applied EXIF orientation before OCR", { orientation, width, height })
+  }
+  onEvent?.({ stage: "uploaded", width, height, orientation })
+
+  // 2. run OCR to get the full text and word-level bounding boxes, reusing the result for an image seen recently
+  throwIfCancelled(signal)
+  const { fullText, words, paragraphStarts, textAngle } = await withCache("ocr", hashCacheKey(ocrProvider.name, buffer), cache, () =>
+    ocrProvider.recognize(buffer === upload ? imageBase64 : buffer.toString("base64"), signal))
+
+  log.debug("OCR finished", { provider: ocrProvider.name, wordCount: words.length, fullText })
+  onEvent?.({ stage: "ocr", wordCount: words.length })
+  throwIfCancelled(signal)
+
+  // 2a. the local rules answer in milliseconds, so in hybrid mode their matches are shown while the model runs
+  const rulePii = fullText && detectionMode !== "llm" ? detectPiiWithRules(fullText, getPolicyRules(policy)) : []
+  if (detectionMode === "hybrid" && rulePii.length > 0) {
+    onEvent?.({ stage: "partial", piiData: applyPolicyActions((await locatePii(rulePii, fullText, words, terms, textAngle)).piiData, policy) })
+  }
+
+  // 3. find PII in the extracted text with OpenAI and/or the local rule-based detectors,
+  // while the local visual detectors look for faces, signatures and barcodes in the image itself
+  // long text is sent to the model in chunks split where OCR found a new paragraph
+  const boundaries = getParagraphBoundaries(fullText, getWordOffsets(fullText, words), paragraphStarts)
+  const [identified, visual] = await Promise.all([
+    fullText
+      ? identifyPii(fullText, boundaries, detectionMode, policy, rulePii, { cache, signal })
+      : Promise.resolve({ pii: [], warnings: [] }),
+    detectVisualPii({ image: buffer, width, height, words }, getVisualDetectorNames(options.visualDetectors)),
+  ])
+  throwIfCancelled(signal)
+  const identifiedPii = identified.pii
+  const visualPii = visual.piiData
+  onEvent?.({ stage: "classified", candidateCount: identifiedPii.length + visualPii.length })
+
+  const warnings = [...identified.warnings]
+  if (visual.failed.length > 0) {
+    warnings.push({
+      code: "visual_detector_failed",
+      message: `Visual detection failed for ${visual.failed.join(", ")}, so they may be missing from the results.`,
+    })
+  }
+
+  if (!fullText && visualPii.length === 0) {
+    throw new PipelineError("no_text_detected", "No text could be detected in the image.")
+  }
+
+  // 4. apply the user's allow and deny lists on top of the detectors, then
+  // 5. map the PII text back to the bounding boxes from OCR, keeping anything that cannot be placed
+  const { piiData: piiWithBbox, unlocated, skipped } = await locatePii(identifiedPii, fullText, words, terms, textAngle)
+  if (skipped.length > 0) {
+    warnings.push({
+      code: "term_regex_timeout",
+      message: `Regular expressions in your term list took too long and were skipped (${skipped.map((entry) => entry.value).join(", ")}). Check the results for those terms by hand.`,
+    })
+  }
+
+  // visual detections are numbered after the text matches so ids stay unique
+  const firstVisualId = Math.max(-1, ...piiWithBbox.map((pii) => pii.id)) + 1
+  const piiData = [...piiWithBbox, ...visualPii.map((pii, index) => ({ ...pii, id: firstVisualId + index }))]
+  onEvent?.({ stage: "mapped", locatedCount: piiData.length, unlocatedCount: unlocated.length })
+
+  // 6. categories the policy only flags start unredacted for the reviewer
+  // character boxes are only needed for matching, so they are not sent back with the words
+  return {
+    piiData: applyPolicyActions(piiData, policy),
+    unlocatedPii: unlocated,
+    words: words.map(({ text, boundingBox }) => ({ text, boundingBox })),
+    width,
+    height,
+    orientation,
+    warnings,
+  }
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from "fs"
+import { z } from "zod"
+import { PipelineError } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import { PII_RULES, type PiiRule } from "@/lib/pii/rules"
+import type { PiiData } from "@/lib/pii/types"
+import { BUILT_IN_POLICIES, DEFAULT_POLICY_ID } from "./presets"
+import type { PolicyAction, PolicySummary, RedactionPolicy } from "./types"
+
+export type { PolicyAction, PolicyCategory, PolicySummary, RedactionPolicy } from "./types"
+export { PII_PROMPT_VERSION, buildPiiPrompt } from "./prompt"
+
+const log = createLogger("policies")
+
+const RedactionPolicySchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and hyphens."),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  documentContext: z.string().default("a document"),
+  scope: z.string().default("that could identify a specific individual"),
+  categories: z.array(z.object({
+    label: z.string().min(1),
+    description: z.string().min(1),
+    action: z.enum(["redact", "flag"]).default("redact"),
+  })).min(1),
+  exclusions: z.array(z.string()).default([]),
+})
+
+let customPolicies: RedactionPolicy[] | undefined
+
+// teams can add their own policies (or override a built-in one by id) with a JSON file at PII_POLICIES_PATH
+const loadCustomPolicies = (): RedactionPolicy[] => {
+  if (customPolicies) return customPolicies
+
+  const path = process.env.PII_POLICIES_PATH
+  if (!path) {
+    customPolicies = []
+    return customPolicies
+  }
+
+  try {
+    customPolicies = z.array(RedactionPolicySchema).parse(JSON.parse(readFileSync(path, "utf8")))
+    return customPolicies
+  } catch (error) {
+    log.error("Failed to load redaction policies", { path, error })
+    throw new PipelineError("configuration_error", "Server configuration error: Invalid redaction policies file.")
+  }
+}
+
+export const getPolicies = (): RedactionPolicy[] => {
+  const custom = loadCustomPolicies()
+  const customIds = new Set(custom.map((policy) => policy.id))
+  return [...BUILT_IN_POLICIES.filter((policy) => !customIds.has(policy.id)), ...custom]
+}
+
+export const getPolicySummaries = (): PolicySummary[] =>
+  getPolicies().map(({ id, name, description }) => ({ id, name, description }))
+
+// resolve the policy for a request: explicit choice first, then PII_POLICY env, then the UK parking policy
+export const getPolicy = (id?: string): RedactionPolicy => {
+  const envId = process.env.PII_POLICY
+  const requested = id ?? envId ?? DEFAULT_POLICY_ID
+  const policy = getPolicies().find((p) => p.id === requested)
+
+  if (!policy) {
+    if (id === undefined && envId !== undefined) {
+      throw new PipelineError("configuration_error", `Server configuration error: Unknown redaction policy "${requested}".`)
+    }
+    throw new PipelineError("unknown_policy", `Unknown redaction policy "${requested}".`)
+  }
+  return policy
+}
+
+export const getDefaultPolicyId = () => getPolicy().id
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase()
+
+// the local detectors whose label is one of the policy's categories
+export const getPolicyRules = (policy: RedactionPolicy): PiiRule[] => {
+  const labels = new Set(policy.categories.map((category) => normalizeLabel(category.label)))
+  return PII_RULES.filter((rule) => labels.has(normalizeLabel(rule.label)))
+}
+
+// anything the policy does not mention (e.g. faces or a label the model made up) is redacted to be safe
+const getPolicyAction = (policy: RedactionPolicy, label: string): PolicyAction =>
+  policy.categories.find((category) => normalizeLabel(category.label) === normalizeLabel(label))?.action ?? "redact"
+
+// flagged categories are listed for review but not redacted until the reviewer ticks them
+export const applyPolicyActions = (piiData: PiiData[], policy: RedactionPolicy): PiiData[] =>
+  piiData.map((pii) => {
+    const action = getPolicyAction(policy, pii.label)
+    return action === "flag" ? { ...pii, redacted: false, flagged: true } : pii
+  })
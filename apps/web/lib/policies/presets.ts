@@ -0,0 +1,90 @@
+import type { RedactionPolicy } from "./types"
+
+// the original behaviour: PCNs and other parking correspondence from UK councils
+const UK_PARKING_POLICY: RedactionPolicy = {
+  id: "uk-parking",
+  name: "UK parking & general",
+  description: "Names, addresses, vehicles, PCNs and contact details. Ignores amounts and service dates.",
+  documentContext: "a UK document",
+  scope: "that could identify a specific individual or vehicle",
+  categories: [
+    { label: "Vehicle Registration", description: "Vehicle registration numbers (UK format: typically 2-3 letters followed by 2-3 numbers and 3 letters, e.g., LV72EPC, AB12CDE)", action: "redact" },
+    { label: "PCN Number", description: "PCN (Penalty Charge Notice) numbers (typically alphanumeric codes like ZY10241472)", action: "redact" },
+    { label: "Reference Number", description: "Reference numbers, case numbers, or ticket numbers that are unique identifiers", action: "redact" },
+    { label: "Name", description: "Full names or partial names of individuals", action: "redact" },
+    { label: "Address", description: "Complete addresses (street names + house numbers + postcodes)", action: "redact" },
+    { label: "Postcode", description: "UK postcodes", action: "redact" },
+    { label: "Phone Number", description: "Phone numbers (UK format: +44 or 07xxx or 02xxx)", action: "redact" },
+    { label: "Email Address", description: "Email addresses", action: "redact" },
+    { label: "Date of Birth", description: "Dates of birth (not generic dates like service dates)", action: "redact" },
+    { label: "National Insurance Number", description: "National Insurance numbers, e.g. QQ 12 34 56 C", action: "redact" },
+    { label: "Sort Code", description: "Bank sort codes", action: "redact" },
+    { label: "Account Number", description: "Bank account numbers", action: "redact" },
+    { label: "Card Number", description: "Payment card numbers", action: "redact" },
+    { label: "Identifier", description: "Any other unique identifying codes or numbers", action: "redact" },
+  ],
+  exclusions: [
+    "Generic times (like 11:06)",
+    "Financial amounts (like £110, £55)",
+    "Generic dates (like service dates, contravention dates)",
+    "Location names without specific addresses (like \"Downderry Road\" without house number)",
+    "Generic location descriptions (like \"Outside No: 83\" without context)",
+  ],
+}
+
+const HR_POLICY: RedactionPolicy = {
+  id: "hr",
+  name: "HR & employment",
+  description: "Employee details, pay and bank details. Job titles and company details are flagged, not redacted.",
+  documentContext: "a UK employment or HR document (payslip, contract, review or letter)",
+  scope: "that relates to a specific employee or candidate",
+  categories: [
+    { label: "Name", description: "Full names or partial names of employees, candidates or their relatives", action: "redact" },
+    { label: "Address", description: "Home addresses (street names + house numbers + postcodes)", action: "redact" },
+    { label: "Postcode", description: "UK postcodes", action: "redact" },
+    { label: "Phone Number", description: "Personal phone numbers", action: "redact" },
+    { label: "Email Address", description: "Personal or work email addresses", action: "redact" },
+    { label: "Date of Birth", description: "Dates of birth", action: "redact" },
+    { label: "National Insurance Number", description: "National Insurance numbers, e.g. QQ 12 34 56 C", action: "redact" },
+    { label: "Employee Number", description: "Employee, payroll or staff ID numbers", action: "redact" },
+    { label: "Salary", description: "Salaries, pay rates, bonuses, deductions and other amounts paid to or by the employee", action: "redact" },
+    { label: "Sort Code", description: "Bank sort codes", action: "redact" },
+    { label: "Account Number", description: "Bank account numbers", action: "redact" },
+    { label: "Tax Code", description: "Personal tax codes, e.g. 1257L", action: "redact" },
+    { label: "Job Title", description: "Job titles that could single out one person in a small organisation", action: "flag" },
+  ],
+  exclusions: [
+    "The employer's own company name, address and registration number",
+    "Generic policy text and headings",
+    "Pay period dates and document dates",
+  ],
+}
+
+const MEDICAL_POLICY: RedactionPolicy = {
+  id: "medical",
+  name: "Medical & health",
+  description: "Patient identifiers, NHS numbers and diagnoses. Clinician names are flagged, not redacted.",
+  documentContext: "a UK medical document (clinic letter, discharge summary, prescription or referral)",
+  scope: "that could identify a specific patient or reveal their health",
+  categories: [
+    { label: "Name", description: "Full names or partial names of patients and their relatives", action: "redact" },
+    { label: "Address", description: "Patient addresses (street names + house numbers + postcodes)", action: "redact" },
+    { label: "Postcode", description: "UK postcodes", action: "redact" },
+    { label: "Phone Number", description: "Patient phone numbers", action: "redact" },
+    { label: "Email Address", description: "Patient email addresses", action: "redact" },
+    { label: "Date of Birth", description: "Dates of birth", action: "redact" },
+    { label: "NHS Number", description: "NHS numbers (10 digits, often written 3-3-4, e.g. 943 476 5919)", action: "redact" },
+    { label: "Hospital Number", description: "Hospital, clinic or medical record numbers", action: "redact" },
+    { label: "Diagnosis", description: "Diagnoses, conditions, symptoms, test results and medications", action: "redact" },
+    { label: "Clinician Name", description: "Names of doctors, nurses and other clinicians", action: "flag" },
+  ],
+  exclusions: [
+    "Names and addresses of hospitals, practices and trusts",
+    "Appointment times and letter dates",
+    "Generic medical terms that are not about the patient",
+  ],
+}
+
+export const BUILT_IN_POLICIES: RedactionPolicy[] = [UK_PARKING_POLICY, HR_POLICY, MEDICAL_POLICY]
+
+export const DEFAULT_POLICY_ID = UK_PARKING_POLICY.id
@@ -0,0 +1,22 @@
+import type { RedactionPolicy } from "./types"
+
+// bump when the prompt template or how the model's answer is read changes, so cached detections are not reused
+export const PII_PROMPT_VERSION = 2
+
+// build the classification prompt from a policy, so each team's categories and exclusions reach the model.
+// instructions are the model's own extra lines, e.g. stricter output rules for small local models
+export const buildPiiPrompt = (policy: RedactionPolicy, text: string, instructions: string[] = []) => {
+  const categories = policy.categories
+    .map((category, index) => `${index + 1}. ${category.label}: ${category.description}`)
+    .join("\n")
+
+  const exclusions = policy.exclusions.length > 0
+    ? `\n\nDO NOT include:\n${policy.exclusions.map((exclusion) => `- ${exclusion}`).join("\n")}`
+    : ""
+
+  return `From the following text extracted from ${policy.documentContext}, identify ONLY true personally identifiable information (PII) ${policy.scope}. Focus on:
+
+${categories}${exclusions}
+
+Use the category name before the colon as the label of each item. Only include information ${policy.scope}.${instructions.map((line) => ` ${line}`).join("")} Return the result as a JSON object. Text: "${text}"`
+}
@@ -0,0 +1,23 @@
+// what happens to a detection once it is found: burned in by default, or only listed for the reviewer to decide
+export type PolicyAction = "redact" | "flag"
+
+// one kind of PII a policy looks for; the label is used by both the model and the local rules
+export type PolicyCategory = {
+  label: string
+  description: string // shown to the model, e.g. "Full names or partial names of individuals"
+  action: PolicyAction
+}
+
+// a named set of categories and exclusions, e.g. for parking tickets, HR documents or medical letters
+export type RedactionPolicy = {
+  id: string
+  name: string
+  description: string
+  documentContext: string // completes "text extracted from ...", e.g. "a UK document"
+  scope: string // completes "information ...", e.g. "that could identify a specific individual or vehicle"
+  categories: PolicyCategory[]
+  exclusions: string[] // things the model must never return
+}
+
+// what the page needs to offer a policy in the UI
+export type PolicySummary = Pick<RedactionPolicy, "id" | "name" | "description">
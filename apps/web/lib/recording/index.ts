@@ -0,0 +1,82 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { join, resolve } from "node:path"
+import { PipelineError } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+import type { UpstreamService } from "@/lib/upstream"
+
+export { createRecordingLanguageModel, createReplayLanguageModel, hashPrompt } from "./model"
+
+const log = createLogger("recording")
+
+// "off" calls the services as usual, "record" calls them and keeps every answer on disk, "replay" answers
+// from disk and never touches the network or needs credentials
+export type RecordingMode = "off" | "record" | "replay"
+
+const RECORDING_MODES: RecordingMode[] = ["off", "record", "replay"]
+
+const isRecordingMode = (mode: string): mode is RecordingMode => RECORDING_MODES.includes(mode as RecordingMode)
+
+// the mode picked by UPSTREAM_RECORDING ("off" by default)
+export const getRecordingMode = (): RecordingMode => {
+  const requested = process.env.UPSTREAM_RECORDING ?? "off"
+  if (!isRecordingMode(requested)) {
+    throw new PipelineError("configuration_error", `Server configuration error: Unknown UPSTREAM_RECORDING mode "${requested}".`)
+  }
+  return requested
+}
+
+// recordings hold document text and the PII found in it, so they live in their own directory that is not committed
+const getRecordingDir = () => resolve(process.env.UPSTREAM_RECORDING_DIR ?? "recordings")
+
+// one JSON file per answer, named by the hash of what was asked
+const pathFor = (service: UpstreamService, key: string) => join(getRecordingDir(), service, `${key}.json`)
+
+// an answer asked for in replay mode that was never recorded
+export class MissingRecordingError extends Error {
+  service: UpstreamService
+  key: string
+
+  constructor(service: UpstreamService, key: string) {
+    super(`No ${service} recording for ${key}. Run once with UPSTREAM_RECORDING=record to capture it.`)
+    this.name = "MissingRecordingError"
+    this.service = service
+    this.key = key
+  }
+}
+
+export const readRecording = async <T>(service: UpstreamService, key: string): Promise<T> => {
+  let contents: string
+  try {
+    contents = await readFile(pathFor(service, key), "utf8")
+  } catch {
+    log.warn("No recording to replay", { service, key, dir: getRecordingDir() })
+    throw new MissingRecordingError(service, key)
+  }
+  return JSON.parse(contents) as T
+}
+
+// keep an answer for replay. a failing write is logged and never fails the request
+export const writeRecording = async (service: UpstreamService, key: string, value: unknown) => {
+  const path = pathFor(service, key)
+  try {
+    await mkdir(join(getRecordingDir(), service), { recursive: true, mode: 0o700 })
+    // write then rename, so a replay never reads half a file
+    const temporary = `${path}.${process.pid}.tmp`
+    await writeFile(temporary, `${JSON.stringify(value, null, 2)}\n`, { mode: 0o600 })
+    await rename(temporary, path)
+    log.debug("Recorded upstream answer", { service, key })
+  } catch (error) {
+    log.warn("Recording write failed", { service, key, error })
+  }
+}
+
+// run an upstream call through the recording mode: key must cover everything the answer depends on. a failed
+// call is not recorded, and in replay mode call is never run
+export const withRecording = async <T>(service: UpstreamService, key: string, call: () => Promise<T>): Promise<T> => {
+  const mode = getRecordingMode()
+  if (mode === "replay") return readRecording<T>(service, key)
+
+  const value = await call()
+  if (mode === "record") await writeRecording(service, key, value)
+  return value
+}
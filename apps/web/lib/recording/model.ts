@@ -0,0 +1,47 @@
+import type { LanguageModel } from "ai"
+import { hashCacheKey } from "@/lib/cache"
+
+type GenerateOptions = Parameters<LanguageModel["doGenerate"]>[0]
+
+// the key a raw answer is recorded under: everything the model was sent, including the schema instructions the
+// SDK adds, so a changed prompt, policy, chunking or schema needs a new recording
+export const hashPrompt = (options: GenerateOptions) => hashCacheKey(JSON.stringify(options.prompt))
+
+// a stand-in model that answers each prompt with the raw text lookup returns for its key. lookup throws when
+// there is no answer, which fails the call like an unavailable model would
+export const createReplayLanguageModel = (
+  { provider, modelId, structuredOutputs }: { provider: string, modelId: string, structuredOutputs: boolean },
+  lookup: (key: string) => Promise<string>,
+): LanguageModel => ({
+  specificationVersion: "v1",
+  provider,
+  modelId,
+  defaultObjectGenerationMode: "json",
+  // must match the recorded model, since it decides whether the SDK describes the schema in the prompt
+  supportsStructuredOutputs: structuredOutputs,
+  doGenerate: async (options) => ({
+    text: await lookup(hashPrompt(options)),
+    finishReason: "stop",
+    usage: { promptTokens: 0, completionTokens: 0 },
+    rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+  }),
+  doStream: async () => {
+    throw new Error("Streaming answers are not recorded.")
+  },
+})
+
+// wrap a model to hand each raw answer to save with its prompt's key
+export const createRecordingLanguageModel = (model: LanguageModel, save: (key: string, text: string) => void | Promise<void>): LanguageModel => ({
+  specificationVersion: "v1",
+  provider: model.provider,
+  modelId: model.modelId,
+  defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+  supportsStructuredOutputs: model.supportsStructuredOutputs,
+  supportsImageUrls: model.supportsImageUrls,
+  doGenerate: async (options) => {
+    const result = await model.doGenerate(options)
+    await save(hashPrompt(options), result.text ?? "")
+    return result
+  },
+  doStream: (options) => model.doStream(options),
+})
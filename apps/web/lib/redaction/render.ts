@@ -0,0 +1,189 @@
+import type { Point } from "@/lib/pii/types"
+import { createCoordinateTransform, getBounds, getLabelPlacement, type CanvasPixels, type ImageDimensions } from "./transform"
+import { DEFAULT_REDACTION_STYLE, getContrastingTextColor, getRedactionLabel, type RedactionStyle } from "./styles"
+
+export type { ImageDimensions } from "./transform"
+
+// anything the renderer can black out: a polygon in the coordinate space of the processed image
+export type RedactionRegion = {
+  redacted: boolean
+  vertices?: Point[]
+  label?: string
+  style?: RedactionStyle
+  textAngle?: number
+}
+
+// browsers apply an image's EXIF orientation when drawing it onto a canvas (image-orientation: from-image is the
+// default in every supported browser), so a canvas drawn from an <img> holds the upright pixels
+export const IMAGE_ELEMENT_PIXELS: CanvasPixels = "upright"
+
+// helper function to load an image source into an HTMLImageElement
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image()
+  img.crossOrigin = "anonymous"
+  img.onload = () => resolve(img)
+  img.onerror = () => reject(new Error("Failed to load image."))
+  img.src = src
+})
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath()
+  ctx.moveTo(points[0].x, points[0].y)
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y)
+  }
+  ctx.closePath()
+}
+
+// fill a polygon given in canvas coordinates
+export const fillPolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  tracePolygon(ctx, points)
+  ctx.fill()
+}
+
+// clip to a polygon, run the drawing callback and restore the context
+const withPolygonClip = (ctx: CanvasRenderingContext2D, points: Point[], draw: () => void) => {
+  ctx.save()
+  tracePolygon(ctx, points)
+  ctx.clip()
+  draw()
+  ctx.restore()
+}
+
+// copy a rectangle of the canvas through a small intermediate canvas and scale it back up
+const resampleRect = (
+  ctx: CanvasRenderingContext2D,
+  [x, y, width, height]: [number, number, number, number],
+  factor: number,
+  smooth: boolean,
+) => {
+  const small = document.createElement("canvas")
+  small.width = Math.max(1, Math.round(width / factor))
+  small.height = Math.max(1, Math.round(height / factor))
+  const smallCtx = small.getContext("2d")
+  if (!smallCtx) return
+
+  smallCtx.imageSmoothingEnabled = true
+  smallCtx.drawImage(ctx.canvas, x, y, width, height, 0, 0, small.width, small.height)
+
+  ctx.imageSmoothingEnabled = smooth
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height)
+  ctx.imageSmoothingEnabled = true
+}
+
+// draw one redaction polygon (in canvas coordinates) in the requested style
+const drawRegion = (ctx: CanvasRenderingContext2D, points: Point[], label: string | undefined, style: RedactionStyle, textAngle?: number) => {
+  const [x, y, width, height] = getBounds(points)
+  if (width <= 0 || height <= 0) return
+
+  // scale the effect strength with the text height so small print is not left legible
+  const strength = Math.max(6, Math.round(Math.min(width, height) / 3))
+
+  switch (style.mode) {
+    case "pixelate":
+      withPolygonClip(ctx, points, () => resampleRect(ctx, [x, y, width, height], strength, false))
+      break
+    case "blur":
+      withPolygonClip(ctx, points, () => {
+        if (typeof ctx.filter === "string") {
+          // gaussian blur of the region, padded so edges sample surrounding pixels
+          const source = document.createElement("canvas")
+          source.width = ctx.canvas.width
+          source.height = ctx.canvas.height
+          source.getContext("2d")?.drawImage(ctx.canvas, 0, 0)
+          ctx.filter = `blur(${strength}px)`
+          ctx.drawImage(source, x - strength, y - strength, width + strength * 2, height + strength * 2, x - strength, y - strength, width + strength * 2, height + strength * 2)
+          ctx.filter = "none"
+        } else {
+          // browsers without canvas filters get a smoothed downscale instead
+          resampleRect(ctx, [x, y, width, height], strength, true)
+        }
+      })
+      break
+    case "label": {
+      ctx.fillStyle = style.color
+      fillPolygon(ctx, points)
+
+      // write the label along the redacted text, so sideways and skewed text gets a readable label
+      const text = getRedactionLabel(label ?? "Redacted")
+      const placement = getLabelPlacement(points, textAngle)
+      withPolygonClip(ctx, points, () => {
+        let fontSize = placement.height * 0.7
+        ctx.font = `bold ${fontSize}px sans-serif`
+        const textWidth = ctx.measureText(text).width
+        if (textWidth > placement.width * 0.9) {
+          fontSize *= (placement.width * 0.9) / textWidth
+          ctx.font = `bold ${fontSize}px sans-serif`
+        }
+        ctx.translate(placement.center.x, placement.center.y)
+        ctx.rotate((placement.angle * Math.PI) / 180)
+        ctx.fillStyle = getContrastingTextColor(style.color)
+        ctx.textAlign = "center"
+        ctx.textBaseline = "middle"
+        ctx.fillText(text, 0, 0)
+      })
+      break
+    }
+    case "solid":
+      ctx.fillStyle = style.color
+      fillPolygon(ctx, points)
+      break
+  }
+}
+
+// draw the redaction polygons onto a canvas that already holds the image at its natural size, the way pixels says
+export const drawRedactions = (
+  ctx: CanvasRenderingContext2D,
+  regions: RedactionRegion[],
+  imageDimensions: ImageDimensions,
+  pixels: CanvasPixels,
+  defaultStyle: RedactionStyle = DEFAULT_REDACTION_STYLE,
+) => {
+  const { toCanvas } = createCoordinateTransform(ctx.canvas, imageDimensions, pixels)
+
+  regions.forEach((region) => {
+    if (region.redacted && region.vertices && region.vertices.length > 0) {
+      // draw polygon using the transformed vertices
+      drawRegion(ctx, region.vertices.map(toCanvas), region.label, region.style ?? defaultStyle, region.textAngle)
+    }
+  })
+}
+
+// draw an already loaded image at its natural size with its redactions on top
+export const drawRedactedImage = (
+  canvas: HTMLCanvasElement,
+  img: HTMLImageElement,
+  regions: RedactionRegion[],
+  imageDimensions: ImageDimensions | null,
+  defaultStyle?: RedactionStyle,
+) => {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not create a canvas to render the image.")
+
+  // set canvas to natural image size for accurate coordinate mapping
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+  // always draw the original image first
+  ctx.drawImage(img, 0, 0)
+
+  if (imageDimensions) {
+    drawRedactions(ctx, regions, imageDimensions, IMAGE_ELEMENT_PIXELS, defaultStyle)
+  }
+
+  return ctx
+}
+
+// render an image with its redactions burned in, e.g. for pages that are not currently on screen
+export const renderRedactedImage = async (
+  imageSrc: string,
+  regions: RedactionRegion[],
+  imageDimensions: ImageDimensions | null,
+  defaultStyle?: RedactionStyle,
+) => {
+  const img = await loadImage(imageSrc)
+  const canvas = document.createElement("canvas")
+  drawRedactedImage(canvas, img, regions, imageDimensions, defaultStyle)
+  return canvas
+}
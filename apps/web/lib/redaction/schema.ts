@@ -0,0 +1,19 @@
+import { z } from "zod"
+
+export const RedactionStyleSchema = z.object({
+  mode: z.enum(["solid", "label", "pixelate", "blur"]),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Expected a hex colour such as #000000.").default("#000000"),
+})
+
+const PointSchema = z.object({ x: z.number().finite(), y: z.number().finite() })
+
+// a region sent for rendering, as found in PiiData: vertices are in the pixels of the processed (upright) image
+export const RedactionRegionSchema = z.object({
+  redacted: z.boolean(),
+  vertices: z.array(PointSchema).max(1000).optional(),
+  label: z.string().max(200).optional(),
+  style: RedactionStyleSchema.optional(),
+  textAngle: z.number().finite().optional(),
+})
+
+export const RedactionRegionListSchema = z.array(RedactionRegionSchema).max(2000)
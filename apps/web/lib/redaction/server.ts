@@ -0,0 +1,150 @@
+import sharp, { type OverlayOptions } from "sharp"
+import { toUprightImage } from "@/lib/images/orientation"
+import { stripImageMetadata } from "@/lib/metadata"
+import { buildImagePdf } from "@/lib/pdf/build"
+import type { Point } from "@/lib/pii/types"
+import type { RedactionRegion } from "./render"
+import { DEFAULT_REDACTION_STYLE, getContrastingTextColor, getRedactionLabel, type RedactionStyle } from "./styles"
+import { getBounds, getLabelPlacement } from "./transform"
+
+export type ServerImageFormat = "png" | "jpeg"
+
+// one page to render: the original image and its final regions, as PiiData with the reviewer's redacted flags
+export type ServerRenderPage = {
+  image: Buffer
+  regions: RedactionRegion[]
+  pageSize?: { width: number, height: number } // PDF page size in points, defaults to the image size
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+const toSvgPoints = (points: Point[], offset: Point = { x: 0, y: 0 }) =>
+  points.map((p) => `${p.x - offset.x},${p.y - offset.y}`).join(" ")
+
+// solid and labelled boxes for one region as SVG, mirroring the canvas renderer
+const toSvgShape = (points: Point[], label: string | undefined, style: RedactionStyle, index: number, textAngle?: number) => {
+  const polygon = `<polygon points="${toSvgPoints(points)}" fill="${escapeXml(style.color)}" />`
+  if (style.mode !== "label") return polygon
+
+  // same placement as the canvas renderer: along the text, for sideways and skewed text too
+  const { center, width, height, angle } = getLabelPlacement(points, textAngle)
+  const text = getRedactionLabel(label ?? "Redacted")
+
+  // sharp has no text measurement, so assume an average glyph width of 0.6em
+  let fontSize = height * 0.7
+  const textWidth = text.length * fontSize * 0.6
+  if (textWidth > width * 0.9) {
+    fontSize *= (width * 0.9) / textWidth
+  }
+
+  return `${polygon}
+    <clipPath id="clip-${index}"><polygon points="${toSvgPoints(points)}" /></clipPath>
+    <g clip-path="url(#clip-${index})">
+      <text x="${center.x}" y="${center.y}" transform="rotate(${angle} ${center.x} ${center.y})" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="${getContrastingTextColor(style.color)}" text-anchor="middle" dominant-baseline="central">${escapeXml(text)}</text>
+    </g>`
+}
+
+// pixelate or blur the pixels under one region and cut the result to the polygon
+const renderDegradedRegion = async (
+  image: Buffer,
+  imageSize: { width: number, height: number },
+  points: Point[],
+  style: RedactionStyle,
+): Promise<OverlayOptions | null> => {
+  const [x, y, width, height] = getBounds(points)
+  const left = Math.max(0, Math.floor(x))
+  const top = Math.max(0, Math.floor(y))
+  const right = Math.min(imageSize.width, Math.ceil(x + width))
+  const bottom = Math.min(imageSize.height, Math.ceil(y + height))
+  if (right - left <= 0 || bottom - top <= 0) return null
+
+  const area = { left, top, width: right - left, height: bottom - top }
+
+  // same strength as the canvas renderer so downloads from the page and the API match
+  const strength = Math.max(6, Math.round(Math.min(width, height) / 3))
+
+  let patch: Buffer
+  if (style.mode === "pixelate") {
+    const small = await sharp(image)
+      .extract(area)
+      .resize(Math.max(1, Math.round(area.width / strength)), Math.max(1, Math.round(area.height / strength)), { fit: "fill" })
+      .toBuffer()
+    patch = await sharp(small).resize(area.width, area.height, { fit: "fill", kernel: "nearest" }).png().toBuffer()
+  } else {
+    // blur a padded area so the edges sample surrounding pixels, then crop back to the region
+    const padded = {
+      left: Math.max(0, area.left - strength),
+      top: Math.max(0, area.top - strength),
+      width: Math.min(imageSize.width, area.left + area.width + strength) - Math.max(0, area.left - strength),
+      height: Math.min(imageSize.height, area.top + area.height + strength) - Math.max(0, area.top - strength),
+    }
+    const blurred = await sharp(image).extract(padded).blur(strength / 2).png().toBuffer()
+    patch = await sharp(blurred)
+      .extract({ left: area.left - padded.left, top: area.top - padded.top, width: area.width, height: area.height })
+      .png()
+      .toBuffer()
+  }
+
+  const mask = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${area.width}" height="${area.height}"><polygon points="${toSvgPoints(points, { x: area.left, y: area.top })}" fill="#fff" /></svg>`,
+  )
+  const clipped = await sharp(patch).ensureAlpha().composite([{ input: mask, blend: "dest-in" }]).png().toBuffer()
+
+  return { input: clipped, left: area.left, top: area.top }
+}
+
+// burn redactions into an image on the server. vertices are in the upright pixel space the pipeline
+// reports, so no canvas transform is needed here, and the output is upright with no orientation tag or other metadata
+export const renderRedactedImageOnServer = async (
+  image: Buffer,
+  regions: RedactionRegion[],
+  format: ServerImageFormat,
+  defaultStyle: RedactionStyle = DEFAULT_REDACTION_STYLE,
+): Promise<Buffer> => {
+  // vertices are in upright pixels, so draw onto the image with its EXIF orientation already applied
+  const { buffer: upright, width, height } = await toUprightImage(image)
+
+  const toRedact = regions.filter((region) => region.redacted && region.vertices && region.vertices.length > 0)
+
+  const degraded = await Promise.all(toRedact
+    .filter((region) => (region.style ?? defaultStyle).mode === "pixelate" || (region.style ?? defaultStyle).mode === "blur")
+    .map((region) => renderDegradedRegion(upright, { width, height }, region.vertices!, region.style ?? defaultStyle)))
+
+  const shapes = toRedact
+    .filter((region) => (region.style ?? defaultStyle).mode === "solid" || (region.style ?? defaultStyle).mode === "label")
+    .map((region, index) => toSvgShape(region.vertices!, region.label, region.style ?? defaultStyle, index, region.textAngle))
+
+  const overlays: OverlayOptions[] = degraded.filter((overlay): overlay is OverlayOptions => overlay !== null)
+  if (shapes.length > 0) {
+    overlays.push({
+      input: Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join("\n")}</svg>`),
+      left: 0,
+      top: 0,
+    })
+  }
+
+  // composite first and encode in a second pass, so JPEG flattening happens after the overlays
+  const output = sharp(await sharp(upright).composite(overlays).png().toBuffer())
+
+  const encoded = format === "jpeg"
+    ? await output.flatten({ background: "#ffffff" }).jpeg({ quality: 92 }).toBuffer()
+    : await output.png().toBuffer()
+
+  // sharp drops metadata unless asked to keep it; strip explicitly so the guarantee does not rest on a default
+  return Buffer.from(stripImageMetadata(encoded))
+}
+
+// render every page and join them into a flattened PDF, built the same way as the browser export
+export const renderRedactedPdfOnServer = async (
+  pages: ServerRenderPage[],
+  defaultStyle: RedactionStyle = DEFAULT_REDACTION_STYLE,
+): Promise<Buffer> => {
+  const pdfPages = []
+  for (const { image, regions, pageSize } of pages) {
+    const png = await renderRedactedImageOnServer(image, regions, "png", defaultStyle)
+    const { width = 595, height = 842 } = pageSize ?? await sharp(png).metadata()
+    pdfPages.push({ png: new Uint8Array(png), pageSize: { width, height } })
+  }
+  return Buffer.from(await buildImagePdf(pdfPages))
+}
@@ -0,0 +1,51 @@
+export type RedactionMode = "solid" | "label" | "pixelate" | "blur"
+
+export type RedactionStyle = {
+  mode: RedactionMode
+  color: string // fill colour for solid and labelled boxes
+}
+
+export const DEFAULT_REDACTION_STYLE: RedactionStyle = { mode: "solid", color: "#000000" }
+
+export const REDACTION_MODES: { mode: RedactionMode, label: string }[] = [
+  { mode: "solid", label: "Solid fill" },
+  { mode: "label", label: "Labelled box" },
+  { mode: "pixelate", label: "Pixelate" },
+  { mode: "blur", label: "Blur" },
+]
+
+// blur and pixelation keep a degraded copy of the original pixels, which can sometimes be reconstructed
+export const isReversibleMode = (mode: RedactionMode) => mode === "pixelate" || mode === "blur"
+
+// short placeholders shown inside labelled boxes, keyed by lowercase PII label
+const REDACTION_LABELS: Record<string, string> = {
+  "name": "NAME",
+  "full name": "NAME",
+  "address": "ADDRESS",
+  "postcode": "POSTCODE",
+  "phone number": "PHONE",
+  "email": "EMAIL",
+  "email address": "EMAIL",
+  "vehicle registration": "VRM",
+  "license plate": "VRM",
+  "licence plate": "VRM",
+  "pcn number": "PCN",
+  "national insurance number": "NI NUMBER",
+  "date of birth": "DOB",
+  "card number": "CARD",
+  "sort code": "SORT CODE",
+  "account number": "ACCOUNT",
+  "manual": "REDACTED",
+}
+
+// text for a labelled box, e.g. "Vehicle Registration" -> "[VRM]"
+export const getRedactionLabel = (label: string) =>
+  `[${REDACTION_LABELS[label.trim().toLowerCase()] ?? label.trim().toUpperCase()}]`
+
+// pick black or white text depending on the fill's perceived brightness
+export const getContrastingTextColor = (color: string) => {
+  const hex = color.replace("#", "")
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return "#ffffff"
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? "#000000" : "#ffffff"
+}
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import sharp from "sharp"
+import { toUprightImage } from "@/lib/images/orientation"
+import { getTextAngle, type Quad } from "@/lib/pii/geometry"
+import type { Point } from "@/lib/pii/types"
+import {
+  createCoordinateTransform,
+  getBounds,
+  getLabelPlacement,
+  getOrientedSize,
+  toStoredPoint,
+  toUprightPoint,
+  type ExifOrientation,
+} from "./transform"
+
+// a landscape image as stored on disk, with one black pixel to follow through each orientation
+const STORED_SIZE = { width: 40, height: 20 }
+const MARKER: Point = { x: 6, y: 3 }
+
+const ORIENTATIONS: ExifOrientation[] = [1, 2, 3, 4, 5, 6, 7, 8]
+
+// the stored image tagged with orientation, as a phone would save it
+const createFixture = (orientation: ExifOrientation) => {
+  const pixels = Buffer.alloc(STORED_SIZE.width * STORED_SIZE.height * 3, 255)
+  pixels.fill(0, (MARKER.y * STORED_SIZE.width + MARKER.x) * 3, (MARKER.y * STORED_SIZE.width + MARKER.x + 1) * 3)
+  return sharp(pixels, { raw: { ...STORED_SIZE, channels: 3 } }).png().withMetadata({ orientation }).toBuffer()
+}
+
+// where the marker ended up once sharp applied the orientation
+const findMarker = async (image: Buffer) => {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true })
+  for (let i = 0; i < info.width * info.height; i++) {
+    if (data[i * info.channels] < 128) return { x: i % info.width, y: Math.floor(i / info.width) }
+  }
+  throw new Error("The marker pixel is missing.")
+}
+
+// pixels are compared by their centres, which is what a box corner inside them maps through
+const centre = ({ x, y }: Point): Point => ({ x: x + 0.5, y: y + 0.5 })
+
+const assertClose = (actual: Point, expected: Point) => {
+  assert.ok(Math.abs(actual.x - expected.x) < 1e-9 && Math.abs(actual.y - expected.y) < 1e-9,
+    `expected (${expected.x}, ${expected.y}), got (${actual.x}, ${actual.y})`)
+}
+
+// an OCR box for text of the given size centred on center and turned by angle degrees, corners in reading order
+const rotatedBox = (center: Point, width: number, height: number, angle: number): Point[] => {
+  const radians = (angle * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const dx = (sx * width) / 2
+    const dy = (sy * height) / 2
+    return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos }
+  })
+}
+
+describe("EXIF orientation", () => {
+  for (const orientation of ORIENTATIONS) {
+    describe(`orientation ${orientation}`, () => {
+      const uprightSize = getOrientedSize(STORED_SIZE, orientation)
+
+      it("maps stored and upright pixels the way the server rotates the image", async () => {
+        const upright = await toUprightImage(await createFixture(orientation))
+        assert.equal(upright.orientation, orientation)
+        assert.deepEqual({ width: upright.width, height: upright.height }, uprightSize)
+
+        const marker = centre(await findMarker(upright.buffer))
+        assertClose(toUprightPoint(centre(MARKER), STORED_SIZE, orientation), marker)
+        assertClose(toStoredPoint(marker, uprightSize, orientation), centre(MARKER))
+      })
+
+      it("places boxes on a canvas showing the upright image", () => {
+        const transform = createCoordinateTransform({ width: uprightSize.width * 2, height: uprightSize.height * 2 }, { ...uprightSize, orientation }, "upright")
+        const point = { x: 5, y: 7 }
+        assertClose(transform.toCanvas(point), { x: 10, y: 14 })
+        assertClose(transform.toImage(transform.toCanvas(point)), point)
+      })
+
+      it("places boxes on a canvas showing the stored pixels", () => {
+        const canvasSize = { width: STORED_SIZE.width * 2, height: STORED_SIZE.height * 2 }
+        const transform = createCoordinateTransform(canvasSize, { ...uprightSize, orientation }, "stored")
+        const upright = toUprightPoint(centre(MARKER), STORED_SIZE, orientation)
+        assertClose(transform.toCanvas(upright), { x: (MARKER.x + 0.5) * 2, y: (MARKER.y + 0.5) * 2 })
+        assertClose(transform.toImage(transform.toCanvas(upright)), upright)
+      })
+    })
+  }
+})
+
+describe("label placement", () => {
+  const center = { x: 100, y: 50 }
+
+  for (const angle of [0, 90, 180, -90, 3, -7]) {
+    it(`follows text turned by ${angle}°`, () => {
+      const placement = getLabelPlacement(rotatedBox(center, 80, 20, angle))
+      assertClose(placement.center, center)
+      assert.ok(Math.abs(placement.width - 80) < 1e-9 && Math.abs(placement.height - 20) < 1e-9)
+      assert.ok(Math.abs(placement.angle - angle) < 1e-9, `expected ${angle}°, got ${placement.angle}°`)
+    })
+  }
+
+  it("covers a skewed box with its bounds", () => {
+    const box = rotatedBox(center, 80, 20, 5)
+    const [x, y, width, height] = getBounds(box)
+    for (const point of box) {
+      assert.ok(point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height)
+    }
+    assert.ok(width > 80 && height > 20)
+  })
+
+  it("labels other shapes horizontally across their bounds", () => {
+    const placement = getLabelPlacement([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 4 }, { x: 5, y: 8 }, { x: 0, y: 4 }])
+    assert.deepEqual(placement, { center: { x: 5, y: 4 }, width: 10, height: 8, angle: 0 })
+  })
+
+  it("labels other shapes along the page's text when it is turned", () => {
+    const points = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 4 }, { x: 5, y: 8 }, { x: 0, y: 4 }]
+    assert.deepEqual(getLabelPlacement(points, 90), { center: { x: 5, y: 4 }, width: 8, height: 10, angle: 90 })
+    assert.deepEqual(getLabelPlacement(points, 180), { center: { x: 5, y: 4 }, width: 10, height: 8, angle: 180 })
+  })
+})
+
+describe("page text angle", () => {
+  const box = (angle: number) => rotatedBox({ x: 100, y: 100 }, 80, 20, angle) as Quad
+
+  it("takes the quarter turn most of the text runs at", () => {
+    assert.equal(getTextAngle([box(90), box(88), box(0)]), 90)
+    assert.equal(getTextAngle([box(180), box(-178)]), 180)
+    assert.equal(getTextAngle([box(-90)]), 270)
+    assert.equal(getTextAngle([box(4)]), 0)
+  })
+
+  it("is upright without any text", () => {
+    assert.equal(getTextAngle([]), 0)
+  })
+})
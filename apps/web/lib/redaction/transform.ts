@@ -0,0 +1,121 @@
+import type { Point } from "@/lib/pii/types"
+
+// EXIF orientation tag: 1 is upright, 3/6/8 are turned 180°/90°/270° and 2/4/5/7 are their mirror images
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8
+
+// size of the image the server processed. the server applies the EXIF orientation before OCR, so this is the
+// upright size and every vertex is in upright pixels; orientation is the tag the upload carried (1 when none)
+export type ImageDimensions = { width: number, height: number, orientation?: ExifOrientation }
+
+// what a canvas holds: the image with its EXIF orientation applied, as the server processed it, or the pixels as
+// stored in the file
+export type CanvasPixels = "upright" | "stored"
+
+export type CoordinateTransform = {
+  toCanvas: (point: Point) => Point
+  toImage: (point: Point) => Point
+}
+
+export const toExifOrientation = (value: unknown): ExifOrientation =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 8 ? value as ExifOrientation : 1
+
+// orientations 5-8 turn the image a quarter, so the stored pixels have width and height swapped
+export const swapsSides = (orientation: ExifOrientation) => orientation >= 5
+
+// size of the image once its EXIF orientation is applied
+export const getOrientedSize = ({ width, height }: { width: number, height: number }, orientation: ExifOrientation) =>
+  swapsSides(orientation) ? { width: height, height: width } : { width, height }
+
+// map a point in the upright image to the same pixel in the stored (un-rotated) image; size is the upright size
+export const toStoredPoint = ({ x, y }: Point, { width, height }: { width: number, height: number }, orientation: ExifOrientation): Point => {
+  switch (orientation) {
+    case 2: return { x: width - x, y }
+    case 3: return { x: width - x, y: height - y }
+    case 4: return { x, y: height - y }
+    case 5: return { x: y, y: x }
+    case 6: return { x: y, y: width - x }
+    case 7: return { x: height - y, y: width - x }
+    case 8: return { x: height - y, y: x }
+    default: return { x, y }
+  }
+}
+
+// map a pixel in the stored image to the upright image; size is the stored size
+export const toUprightPoint = ({ x, y }: Point, { width, height }: { width: number, height: number }, orientation: ExifOrientation): Point => {
+  switch (orientation) {
+    case 2: return { x: width - x, y }
+    case 3: return { x: width - x, y: height - y }
+    case 4: return { x, y: height - y }
+    case 5: return { x: y, y: x }
+    case 6: return { x: height - y, y: x }
+    case 7: return { x: height - y, y: width - x }
+    case 8: return { x: y, y: width - x }
+    default: return { x, y }
+  }
+}
+
+// maps between the coordinate space the server processed (upright image pixels) and the canvas, which holds the
+// image at its natural size. pixels says which way round the canvas holds it, as whoever drew it knows; a canvas
+// of stored pixels needs the orientation undone. every renderer and editor must go through this
+export const createCoordinateTransform = (
+  canvasSize: { width: number, height: number },
+  imageDimensions: ImageDimensions,
+  pixels: CanvasPixels,
+): CoordinateTransform => {
+  const orientation = imageDimensions.orientation ?? 1
+  const showsStoredPixels = pixels === "stored" && orientation !== 1
+  const canvasImageSize = showsStoredPixels ? getOrientedSize(imageDimensions, orientation) : imageDimensions
+
+  const scaleX = canvasSize.width / canvasImageSize.width
+  const scaleY = canvasSize.height / canvasImageSize.height
+
+  if (showsStoredPixels) {
+    return {
+      toCanvas: (v) => {
+        const stored = toStoredPoint(v, imageDimensions, orientation)
+        return { x: stored.x * scaleX, y: stored.y * scaleY }
+      },
+      toImage: (p) => toUprightPoint({ x: p.x / scaleX, y: p.y / scaleY }, canvasImageSize, orientation),
+    }
+  }
+
+  return {
+    toCanvas: (v) => ({ x: v.x * scaleX, y: v.y * scaleY }),
+    toImage: (p) => ({ x: p.x / scaleX, y: p.y / scaleY }),
+  }
+}
+
+// axis-aligned bounds of a polygon as [x, y, width, height]
+export const getBounds = (points: Point[]): [number, number, number, number] => {
+  const xCoords = points.map((p) => p.x)
+  const yCoords = points.map((p) => p.y)
+  const x0 = Math.min(...xCoords)
+  const y0 = Math.min(...yCoords)
+  return [x0, y0, Math.max(...xCoords) - x0, Math.max(...yCoords) - y0]
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y)
+
+// where to write a label inside a redaction: OCR boxes list their corners in reading order starting top-left,
+// so a four-point box gives the angle of the text (quarter turns and small skews alike). anything else is
+// labelled across its bounds at textAngle, the way the page's text runs (see PiiData.textAngle)
+export const getLabelPlacement = (points: Point[], textAngle = 0) => {
+  if (points.length === 4) {
+    const [tl, tr, , bl] = points
+    const width = distance(tl, tr)
+    const height = distance(tl, bl)
+    if (width > 0 && height > 0) {
+      const center = { x: (points[0].x + points[2].x) / 2, y: (points[0].y + points[2].y) / 2 }
+      return { center, width, height, angle: (Math.atan2(tr.y - tl.y, tr.x - tl.x) * 180) / Math.PI }
+    }
+  }
+
+  const [x, y, width, height] = getBounds(points)
+  const sideways = Math.abs(textAngle % 180) === 90
+  return {
+    center: { x: x + width / 2, y: y + height / 2 },
+    width: sideways ? height : width,
+    height: sideways ? width : height,
+    angle: textAngle,
+  }
+}
@@ -0,0 +1,50 @@
+import type { PiiData } from "@/lib/pii/types"
+import { needsReview } from "./thresholds"
+
+// coarse grouping of the free-form matchType strings from mapPiiToBbox and the visual detectors
+export type MatchKind = "exact" | "partial" | "flexible" | "fuzzy" | "visual" | "manual"
+
+export type ReviewFilter = "all" | "needs-review" | MatchKind
+
+export type ReviewSort = "document" | "confidence-asc" | "confidence-desc"
+
+export const REVIEW_FILTERS: { filter: ReviewFilter, label: string }[] = [
+  { filter: "all", label: "All items" },
+  { filter: "needs-review", label: "Needs review" },
+  { filter: "exact", label: "Exact matches" },
+  { filter: "partial", label: "Partial-word matches" },
+  { filter: "flexible", label: "Flexible matches" },
+  { filter: "fuzzy", label: "Fuzzy matches" },
+  { filter: "visual", label: "Faces, signatures & codes" },
+  { filter: "manual", label: "Manual" },
+]
+
+export const REVIEW_SORTS: { sort: ReviewSort, label: string }[] = [
+  { sort: "document", label: "Document order" },
+  { sort: "confidence-asc", label: "Lowest confidence first" },
+  { sort: "confidence-desc", label: "Highest confidence first" },
+]
+
+export const getMatchKind = (pii: PiiData): MatchKind => {
+  if (pii.source === "manual") return "manual"
+  if (pii.source === "visual") return "visual"
+  if (pii.matchType?.startsWith("partial")) return "partial"
+  if (pii.matchType?.startsWith("fuzzy")) return "fuzzy"
+  if (pii.matchType?.startsWith("flexible")) return "flexible"
+  return "exact"
+}
+
+// items without a score (e.g. manual boxes) sort as fully confident
+const confidenceOf = (pii: PiiData) => pii.confidence ?? 1
+
+export const filterAndSortPii = (piiData: PiiData[], filter: ReviewFilter, sort: ReviewSort) => {
+  const filtered = piiData.filter((pii) => {
+    if (filter === "all") return true
+    if (filter === "needs-review") return needsReview(pii)
+    return getMatchKind(pii) === filter
+  })
+
+  if (sort === "document") return filtered
+  const direction = sort === "confidence-asc" ? 1 : -1
+  return [...filtered].sort((a, b) => (confidenceOf(a) - confidenceOf(b)) * direction)
+}
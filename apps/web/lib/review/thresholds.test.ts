@@ -0,0 +1,41 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { PiiData } from "@/lib/pii/types"
+import { applyReviewThresholds, countNeedsReview, resolveReview } from "./thresholds"
+
+const item = (id: number, extra: Partial<PiiData>): PiiData => ({ id, label: "Name", text: `Name ${id}`, bbox: [0, 0, 10, 10], redacted: true, ...extra })
+
+describe("applyReviewThresholds", () => {
+  const thresholds = { review: 0.9, discard: 0.5 }
+
+  it("holds back low-confidence and flagged items and dismisses noise without dropping it", () => {
+    const reviewed = applyReviewThresholds([
+      item(0, { confidence: 1 }),
+      item(1, { confidence: 0.7 }),
+      item(2, { confidence: 0.3 }),
+      item(3, { confidence: 1, flagged: true }),
+      item(4, { confidence: 0.1, source: "manual" }),
+      item(5, {}),
+    ], thresholds)
+
+    assert.deepEqual(reviewed.map(({ id, redacted, review }) => [id, redacted, review]), [
+      [0, true, undefined],
+      [1, false, "pending"],
+      [2, false, "dismissed"],
+      [3, false, "pending"],
+      [4, true, undefined],
+      [5, true, undefined],
+    ])
+  })
+
+  it("lets dismissed items be redacted later without blocking the download", () => {
+    const [dismissed] = applyReviewThresholds([item(0, { confidence: 0.3 })], thresholds)
+    assert.equal(countNeedsReview([{ piiData: [dismissed] }]), 0)
+    assert.deepEqual(resolveReview(dismissed, "accepted"), { ...dismissed, redacted: true, review: "accepted" })
+  })
+
+  it("dismisses nothing with a discard threshold of 0", () => {
+    const reviewed = applyReviewThresholds([item(0, { confidence: 0 })], { review: 0.9, discard: 0 })
+    assert.equal(reviewed[0].review, "pending")
+  })
+})
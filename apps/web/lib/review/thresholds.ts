@@ -0,0 +1,36 @@
+import type { PiiData } from "@/lib/pii/types"
+
+export type ReviewThresholds = {
+  review: number // matches below this confidence are highlighted but left unredacted until a reviewer decides
+  discard: number // matches below this confidence are dismissed as noise (left unredacted, listed collapsed), 0 dismisses nothing
+}
+
+export const DEFAULT_REVIEW_THRESHOLDS: ReviewThresholds = { review: 0.9, discard: 0 }
+
+// manual boxes are the reviewer's own decision, so they never need a second look
+const isManual = (pii: PiiData) => pii.source === "manual"
+
+// turn raw detections into the review queue: dismiss noise, hold back low-confidence and policy-flagged items.
+// dismissed items stay in the list so the reviewer can still redact them and the audit report records them
+export const applyReviewThresholds = (piiData: PiiData[], thresholds: ReviewThresholds): PiiData[] =>
+  piiData.map((pii) => {
+    if (isManual(pii)) return pii
+    if (pii.confidence !== undefined && pii.confidence < thresholds.discard) return { ...pii, redacted: false, review: "dismissed" }
+    const lowConfidence = pii.confidence !== undefined && pii.confidence < thresholds.review
+    if (!lowConfidence && !pii.flagged) return pii
+    return { ...pii, redacted: false, review: "pending" }
+  })
+
+export const isDismissed = (pii: PiiData) => pii.review === "dismissed"
+
+export const needsReview = (pii: PiiData) => pii.review === "pending"
+
+// accepting redacts the item, rejecting leaves it visible; either way it no longer blocks the download
+export const resolveReview = (pii: PiiData, decision: "accepted" | "rejected"): PiiData => ({
+  ...pii,
+  redacted: decision === "accepted",
+  review: decision,
+})
+
+export const countNeedsReview = (pages: { piiData: PiiData[] }[]) =>
+  pages.reduce((count, page) => count + page.piiData.filter(needsReview).length, 0)
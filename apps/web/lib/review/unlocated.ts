@@ -0,0 +1,8 @@
+import type { PiiItem, UnlocatedPii } from "@/lib/pii/types"
+
+// every unlocated detection starts open, ids only need to be unique within a page
+export const toUnlocatedPii = (items: PiiItem[]): UnlocatedPii[] =>
+  items.map((item, index) => ({ ...item, id: index, state: "open" }))
+
+export const countOpenUnlocated = (pages: { unlocatedPii: UnlocatedPii[] }[]) =>
+  pages.reduce((count, page) => count + page.unlocatedPii.filter((item) => item.state === "open").length, 0)
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { PiiItem } from "@/lib/pii/types"
+import { applyTermLists } from "./apply"
+import type { TermEntry } from "./types"
+
+// the OCR text as one word per whitespace-separated token, which is all the literal search looks at
+const apply = (piiList: PiiItem[], fullText: string, entries: TermEntry[]) =>
+  applyTermLists(piiList, fullText, fullText.split(/\s+/).filter(Boolean).map((text) => ({ text })), entries)
+
+const texts = (pii: PiiItem[]) => pii.map((item) => item.text)
+
+describe("applyTermLists", () => {
+  const detected: PiiItem[] = [
+    { text: "Acme Ltd", label: "Company", source: "model" },
+    { text: "Jane Smith", label: "Name", source: "model" },
+  ]
+
+  it("allows a literal entry only when it equals the detection apart from case and spacing", async () => {
+    const { pii } = await apply(detected, "", [{ list: "allow", match: "literal", value: "  ACME   ltd " }])
+    assert.deepEqual(texts(pii), ["Jane Smith"])
+
+    for (const value of ["Acme Ltd.", "Acne Ltd", "Acme"]) {
+      const { pii: kept } = await apply(detected, "", [{ list: "allow", match: "literal", value }])
+      assert.deepEqual(texts(kept), ["Acme Ltd", "Jane Smith"], value)
+    }
+  })
+
+  it("allows a regex entry only when it matches the whole detection", async () => {
+    const { pii } = await apply(detected, "", [{ list: "allow", match: "regex", value: "acme.*" }])
+    assert.deepEqual(texts(pii), ["Jane Smith"])
+
+    const { pii: kept } = await apply(detected, "", [{ list: "allow", match: "regex", value: "Smith" }])
+    assert.deepEqual(texts(kept), ["Acme Ltd", "Jane Smith"])
+  })
+
+  it("adds deny entries found in the text with their label", async () => {
+    const { pii } = await apply(detected, "Ref CASE-123456 for Jane Smith at Bigco", [
+      { list: "deny", match: "regex", value: String.raw`CASE-\d{6}`, label: "Case Ref" },
+      { list: "deny", match: "literal", value: "Bigco" },
+      { list: "deny", match: "literal", value: "Otherco" },
+      { list: "deny", match: "literal", value: "jane smith" },
+    ])
+    assert.deepEqual(pii.map(({ text, label, source }) => [text, label, source]), [
+      ["Acme Ltd", "Company", "model"],
+      ["Jane Smith", "Name", "model"],
+      ["CASE-123456", "Case Ref", "term-list"],
+      ["Bigco", "Custom Term", "term-list"],
+    ])
+  })
+
+  it("skips a regex that runs too long and keeps what it would have allowed", async () => {
+    const entry: TermEntry = { list: "allow", match: "regex", value: "(a+)+$" }
+    const slow: PiiItem = { text: `${"a".repeat(40)}!`, label: "Reference" }
+    const { pii, skipped } = await apply([slow], "", [entry])
+    assert.deepEqual(pii, [slow])
+    assert.deepEqual(skipped, [entry])
+  })
+})
@@ -0,0 +1,90 @@
+import { createLogger } from "@/lib/logging"
+import { createSearchVariants, fuzzyMatchPII } from "@/lib/pii/mapping"
+import { mergePiiResults } from "@/lib/pii/rules"
+import type { PiiItem, WordInfo } from "@/lib/pii/types"
+import { runRegexJobs, type RegexJobResult } from "./regex"
+import type { TermEntry } from "./types"
+
+const log = createLogger("term-lists")
+
+export const DEFAULT_TERM_LABEL = "Custom Term"
+
+const normalize = (text: string) => text.replace(/[^a-zA-Z0-9]/g, "").toLowerCase()
+
+// whether a literal term occurs in the OCR output, allowing for the same OCR noise as detected PII
+const containsTerm = (term: string, fullText: string, words: WordInfo[]) => {
+  const normalizedText = normalize(fullText)
+  if (createSearchVariants(term).some((variant) => normalizedText.includes(variant.join("").toLowerCase()))) {
+    return true
+  }
+  return fuzzyMatchPII(term, words, 0.85).length > 0
+}
+
+// deny-list entries found in the text, as PII items for mapPiiToBbox to locate on the image. regexMatches holds
+// what each regex entry matched
+const findDenyListTerms = (fullText: string, words: WordInfo[], entries: TermEntry[], regexMatches: Map<TermEntry, string[]>): PiiItem[] =>
+  entries.flatMap((entry): PiiItem[] => {
+    const label = entry.label ?? DEFAULT_TERM_LABEL
+
+    if (entry.match === "literal") {
+      return containsTerm(entry.value, fullText, words) ? [{ text: entry.value, label, source: "term-list" }] : []
+    }
+
+    return (regexMatches.get(entry) ?? [])
+      .map((match) => match.trim())
+      .filter((text) => text.length > 0)
+      .map((text) => ({ text, label, source: "term-list" as const }))
+  })
+
+// case and runs of whitespace are the only differences an allow-list entry overlooks: anything looser could let a
+// different identifier through unredacted
+const normalizeAllowed = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase()
+
+// apply the user's term lists to the detector output: drop allow-listed items, then add deny-list matches.
+// regex entries run in a worker with a time limit; one that runs too long is left out and listed in skipped,
+// which means its deny matches are missing and its allow entry keeps everything redacted
+export const applyTermLists = async (
+  piiList: PiiItem[],
+  fullText: string,
+  words: WordInfo[],
+  entries: TermEntry[],
+): Promise<{ pii: PiiItem[], skipped: TermEntry[] }> => {
+  if (entries.length === 0) return { pii: piiList, skipped: [] }
+
+  const allowList = entries.filter((entry) => entry.list === "allow")
+  const denyList = entries.filter((entry) => entry.list === "deny")
+  const allowRegexes = allowList.filter((entry) => entry.match === "regex")
+  const denyRegexes = denyList.filter((entry) => entry.match === "regex")
+
+  // one job per deny regex over the text, then one per allow regex over every detection, anchored to the whole text
+  const denyJobs = denyRegexes.map((entry) => ({ source: entry.value, flags: "gi", inputs: [fullText] }))
+  const allowJobs = allowRegexes.map((entry) => ({
+    source: `^(?:${entry.value})$`,
+    flags: "gi",
+    inputs: piiList.map((pii) => pii.text.trim()),
+  }))
+  const results = await runRegexJobs([...denyJobs, ...allowJobs])
+
+  const skipped = new Set<TermEntry>()
+  const matchesOf = (entry: TermEntry, result: RegexJobResult) => {
+    if (result === "timeout") skipped.add(entry)
+    if (result === null) log.warn("Skipping invalid term list regex", { value: entry.value })
+    return Array.isArray(result) ? result : []
+  }
+
+  const regexMatches = new Map(denyRegexes.map((entry, index) => [entry, matchesOf(entry, results[index])[0] ?? []]))
+  const allowedByRegex = new Set<number>()
+  allowRegexes.forEach((entry, entryIndex) => {
+    matchesOf(entry, results[denyJobs.length + entryIndex]).forEach((matches, piiIndex) => {
+      if (matches.length > 0) allowedByRegex.add(piiIndex)
+    })
+  })
+
+  const allowedLiterals = new Set(allowList.filter((entry) => entry.match === "literal").map((entry) => normalizeAllowed(entry.value)))
+  const kept = piiList.filter((pii, index) => !allowedByRegex.has(index) && !allowedLiterals.has(normalizeAllowed(pii.text)))
+  // terms a detector already found keep the detector's label
+  return {
+    pii: mergePiiResults(kept, findDenyListTerms(fullText, words, denyList, regexMatches)),
+    skipped: [...skipped],
+  }
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseTermListFile, termsToCsv, termsToJson } from "./io"
+import type { TermEntry } from "./types"
+
+const entries: TermEntry[] = [
+  { list: "deny", match: "regex", value: String.raw`CASE-\d{6}`, label: "Case Ref" },
+  { list: "allow", match: "literal", value: "Acme, \"The\" Company" },
+  { list: "deny", match: "literal", value: "Line one\nline two" },
+]
+
+describe("term list import and export", () => {
+  it("reads back what it exports as JSON", () => {
+    assert.deepEqual(parseTermListFile("terms.json", termsToJson(entries)), entries)
+  })
+
+  it("reads back what it exports as CSV, quoting commas, quotes and line breaks", () => {
+    const csv = termsToCsv(entries)
+    assert.equal(csv.split("\n")[0], "list,match,value,label")
+    assert.deepEqual(parseTermListFile("TERMS.CSV", csv), entries)
+  })
+
+  it("accepts a bare JSON array and defaults the match mode", () => {
+    assert.deepEqual(parseTermListFile("terms.json", JSON.stringify([{ list: "deny", value: " Bigco " }])), [
+      { list: "deny", match: "literal", value: "Bigco" },
+    ])
+  })
+
+  it("accepts CSV columns in any order with Windows line endings", () => {
+    assert.deepEqual(parseTermListFile("terms.csv", "Value,List\r\nBigco,deny\r\n\r\n"), [
+      { list: "deny", match: "literal", value: "Bigco" },
+    ])
+  })
+
+  it("rejects invalid entries with a readable error", () => {
+    assert.throws(() => parseTermListFile("terms.json", JSON.stringify([{ list: "deny", match: "regex", value: "(" }])), {
+      message: "Invalid term list (0.value): Invalid regular expression.",
+    })
+    assert.throws(() => parseTermListFile("terms.csv", "value\nBigco"), { message: /"list" and "value" columns/ })
+  })
+})
@@ -0,0 +1,110 @@
+import { z } from "zod"
+import type { TermEntry } from "./types"
+
+// longer terms are rejected. this does not make a regex cheap to run: on the server regexes run in a worker with
+// a time limit (lib/terms/regex.ts)
+const MAX_TERM_LENGTH = 200
+
+const isValidRegex = (value: string) => {
+  try {
+    new RegExp(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const TermEntrySchema = z.object({
+  list: z.enum(["deny", "allow"]),
+  match: z.enum(["literal", "regex"]).default("literal"),
+  value: z.string().trim().min(1).max(MAX_TERM_LENGTH),
+  label: z.string().trim().min(1).optional(),
+}).refine((entry) => entry.match !== "regex" || isValidRegex(entry.value), {
+  message: "Invalid regular expression.",
+  path: ["value"],
+})
+
+export const TermListSchema = z.array(TermEntrySchema)
+
+const CSV_COLUMNS = ["list", "match", "value", "label"] as const
+
+// quote a CSV field when it contains a delimiter, quote or line break
+const toCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+// minimal RFC 4180 reader: quoted fields may contain commas, quotes ("") and line breaks
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()))
+}
+
+export const termsToJson = (entries: TermEntry[]) => JSON.stringify({ terms: entries }, null, 2)
+
+export const termsToCsv = (entries: TermEntry[]) =>
+  [CSV_COLUMNS.join(","), ...entries.map((entry) => CSV_COLUMNS.map((column) => toCsvField(entry[column] ?? "")).join(","))].join("\n")
+
+const parseTermsJson = (content: string) => {
+  const parsed = JSON.parse(content)
+  // accept both a bare array and the { terms: [...] } shape written by the export
+  return Array.isArray(parsed) ? parsed : parsed?.terms
+}
+
+const parseTermsCsv = (content: string) => {
+  const [header, ...rows] = parseCsvRows(content)
+  if (!header) return []
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  if (!columns.includes("list") || !columns.includes("value")) {
+    throw new Error("CSV files need at least \"list\" and \"value\" columns.")
+  }
+
+  return rows.map((row) => Object.fromEntries(
+    columns.map((column, index) => [column, row[index]?.trim() || undefined]).filter(([, value]) => value !== undefined),
+  ))
+}
+
+// read an exported (or hand written) JSON or CSV term list, throwing a readable error if it is invalid
+export const parseTermListFile = (fileName: string, content: string): TermEntry[] => {
+  const raw = fileName.toLowerCase().endsWith(".csv") ? parseTermsCsv(content) : parseTermsJson(content)
+
+  const result = TermListSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid term list${issue.path.length > 0 ? ` (${issue.path.join(".")})` : ""}: ${issue.message}`)
+  }
+  return result.data
+}
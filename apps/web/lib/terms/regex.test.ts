@@ -0,0 +1,22 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { runRegexJobs } from "./regex"
+
+describe("runRegexJobs", () => {
+  it("returns every match in each input", async () => {
+    const [result] = await runRegexJobs([{ source: String.raw`CASE-\d{3}`, flags: "gi", inputs: ["case-123 and CASE-456", "none"] }])
+    assert.deepEqual(result, [["case-123", "CASE-456"], []])
+  })
+
+  it("returns null for an invalid pattern", async () => {
+    assert.deepEqual(await runRegexJobs([{ source: "(", flags: "g", inputs: ["("] }]), [null])
+  })
+
+  it("stops a pattern that runs too long and carries on with the next job", async () => {
+    const results = await runRegexJobs([
+      { source: "(a+)+$", flags: "g", inputs: [`${"a".repeat(40)}!`] },
+      { source: "b", flags: "g", inputs: ["abc"] },
+    ])
+    assert.deepEqual(results, ["timeout", [["b"]]])
+  })
+})
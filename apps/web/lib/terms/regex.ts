@@ -0,0 +1,84 @@
+import { Worker } from "node:worker_threads"
+import { createLogger } from "@/lib/logging"
+
+const log = createLogger("term-regex")
+
+// how long one user regex may run over all of its texts before it is stopped
+const DEFAULT_REGEX_TIMEOUT_MS = 250
+
+// a user regex to run over one or more texts; every match is returned, so flags must include "g"
+export type RegexJob = {
+  source: string
+  flags: string
+  inputs: string[]
+}
+
+// the matches in each of the job's inputs, in order, null for an invalid pattern or "timeout"
+export type RegexJobResult = string[][] | null | "timeout"
+
+// runs the jobs it is sent one at a time and answers each with its matches, or null for an invalid pattern
+const WORKER_SOURCE = `
+const { parentPort } = require("node:worker_threads")
+parentPort.on("message", ({ source, flags, inputs }) => {
+  let matches = null
+  try {
+    const regex = new RegExp(source, flags)
+    matches = inputs.map((input) => Array.from(input.matchAll(regex), (match) => match[0]))
+  } catch {}
+  parentPort.postMessage(matches)
+})
+`
+
+const getTimeoutMs = () => {
+  const timeout = Number(process.env.TERM_REGEX_TIMEOUT_MS)
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_REGEX_TIMEOUT_MS
+}
+
+const startWorker = () => new Promise<Worker>((resolve, reject) => {
+  const worker = new Worker(WORKER_SOURCE, { eval: true })
+  worker.once("online", () => resolve(worker))
+  worker.once("error", reject)
+})
+
+const runJob = (worker: Worker, job: RegexJob, timeoutMs: number) => new Promise<RegexJobResult>((resolve) => {
+  const settle = (result: RegexJobResult) => {
+    clearTimeout(timer)
+    worker.off("message", settle)
+    worker.off("error", onError)
+    resolve(result)
+  }
+  const onError = (error: unknown) => {
+    log.warn("Term regex worker failed", { error })
+    settle("timeout")
+  }
+  const timer = setTimeout(() => settle("timeout"), timeoutMs)
+  worker.on("message", settle)
+  worker.on("error", onError)
+  worker.postMessage(job)
+})
+
+// run user regexes off the event loop, so a pattern that backtracks catastrophically (e.g. "(a+)+$") cannot
+// hang the server: a job still running after TERM_REGEX_TIMEOUT_MS has its worker stopped and gets "timeout".
+// invalid patterns get null. the worker is only started when there is a job
+export const runRegexJobs = async (jobs: RegexJob[]): Promise<RegexJobResult[]> => {
+  const timeoutMs = getTimeoutMs()
+  const results: RegexJobResult[] = []
+  let worker: Worker | undefined
+
+  try {
+    for (const job of jobs) {
+      worker ??= await startWorker()
+      const result = await runJob(worker, job, timeoutMs)
+      if (result === "timeout") {
+        log.warn("Term regex stopped after running too long", { timeoutMs, inputCount: job.inputs.length })
+        // the worker is stuck in the pattern, so the next job needs a new one
+        void worker.terminate()
+        worker = undefined
+      }
+      results.push(result)
+    }
+  } finally {
+    void worker?.terminate()
+  }
+  return results
+}
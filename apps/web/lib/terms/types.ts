@@ -0,0 +1,13 @@
+// deny: always redact wherever it appears, allow: never redact even if a detector finds it
+export type TermListKind = "deny" | "allow"
+
+// literal deny entries are searched for with the same OCR-tolerant search as detected PII, literal allow entries
+// must equal the detected text apart from case and whitespace. regexes run against the OCR text
+export type TermMatchMode = "literal" | "regex"
+
+export type TermEntry = {
+  list: TermListKind
+  match: TermMatchMode
+  value: string
+  label?: string // label for deny-list matches, defaults to "Custom Term"
+}
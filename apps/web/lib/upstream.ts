@@ -0,0 +1,115 @@
+import { PipelineError, throwIfCancelled } from "@/lib/errors"
+import { createLogger } from "@/lib/logging"
+
+const log = createLogger("upstream")
+
+// the external services the pipeline calls, each with its own timeout
+export type UpstreamService = "vision" | "openai"
+
+const DEFAULT_TIMEOUTS_MS: Record<UpstreamService, number> = {
+  vision: 30_000,
+  openai: 60_000,
+}
+
+const TIMEOUT_ENV: Record<UpstreamService, string> = {
+  vision: "VISION_TIMEOUT_MS",
+  openai: "OPENAI_TIMEOUT_MS",
+}
+
+const DEFAULT_MAX_RETRIES = 2
+const BASE_DELAY_MS = 500
+
+// an upstream call that did not answer in time
+export class UpstreamTimeoutError extends Error {
+  service: UpstreamService
+
+  constructor(service: UpstreamService, timeoutMs: number) {
+    super(`${service} did not respond within ${timeoutMs}ms.`)
+    this.name = "UpstreamTimeoutError"
+    this.service = service
+  }
+}
+
+const readInteger = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value)
+  return value && Number.isInteger(parsed) && parsed >= min ? parsed : fallback
+}
+
+const getTimeoutMs = (service: UpstreamService) => readInteger(process.env[TIMEOUT_ENV[service]], DEFAULT_TIMEOUTS_MS[service], 1)
+
+const getMaxRetries = () => readInteger(process.env.UPSTREAM_MAX_RETRIES, DEFAULT_MAX_RETRIES, 0)
+
+// gRPC codes from Vision: DEADLINE_EXCEEDED, RESOURCE_EXHAUSTED, INTERNAL, UNAVAILABLE
+const TRANSIENT_GRPC_CODES = new Set([4, 8, 13, 14])
+const TRANSIENT_NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"])
+
+// worth another attempt: timeouts, rate limits, server errors and dropped connections. bad requests and
+// missing credentials fail the same way every time, so they are not retried
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof UpstreamTimeoutError) return true
+  if (!error || typeof error !== "object") return false
+
+  const { isRetryable, statusCode, status, code, cause } = error as Record<string, unknown>
+  if (typeof isRetryable === "boolean") return isRetryable
+  const httpStatus = typeof statusCode === "number" ? statusCode : typeof status === "number" ? status : undefined
+  if (httpStatus !== undefined) return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500
+  if (typeof code === "number") return TRANSIENT_GRPC_CODES.has(code)
+  if (typeof code === "string") return TRANSIENT_NETWORK_CODES.has(code)
+  return cause !== undefined && cause !== error && isTransientError(cause)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// give up on a call after the service's timeout or when the caller cancels; the signal passed to run
+// lets the call abort its own request
+const withTimeout = async <T>(service: UpstreamService, run: (signal: AbortSignal) => Promise<T>, cancel?: AbortSignal): Promise<T> => {
+  const timeoutMs = getTimeoutMs(service)
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onCancel: (() => void) | undefined
+
+  try {
+    return await Promise.race([
+      run(controller.signal),
+      // reject before aborting, so a call that settles on abort cannot win the race
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new UpstreamTimeoutError(service, timeoutMs))
+          controller.abort()
+        }, timeoutMs)
+        onCancel = () => {
+          reject(new PipelineError("cancelled", "Processing was cancelled."))
+          controller.abort()
+        }
+        cancel?.addEventListener("abort", onCancel, { once: true })
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+    if (onCancel) cancel?.removeEventListener("abort", onCancel)
+  }
+}
+
+// call an external service with a timeout per attempt and bounded retries with exponential backoff and jitter
+// for transient failures. anything else, or the last failure, is thrown to the caller. aborting cancel stops
+// the call in flight and any further attempts
+export const callUpstream = async <T>(
+  service: UpstreamService,
+  run: (signal: AbortSignal) => Promise<T>,
+  cancel?: AbortSignal,
+): Promise<T> => {
+  const maxRetries = getMaxRetries()
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(cancel)
+    try {
+      return await withTimeout(service, run, cancel)
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error) || cancel?.aborted) throw error
+
+      const delayMs = BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2)
+      log.warn("Upstream call failed, retrying", { service, attempt: attempt + 1, delayMs: Math.round(delayMs), error })
+      await sleep(delayMs)
+    }
+  }
+}
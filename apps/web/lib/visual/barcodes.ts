@@ -0,0 +1,41 @@
+import { readFile } from "fs/promises"
+import { createRequire } from "module"
+import { prepareZXingModule, readBarcodes } from "zxing-wasm/reader"
+import type { VisualDetector } from "./types"
+
+const QR_FORMATS = new Set(["QRCode", "MicroQRCode", "rMQRCode"])
+
+let zxingReady: Promise<unknown> | null = null
+
+// load the ZXing wasm binary from node_modules instead of the default CDN so decoding works offline
+const ensureZXing = () => {
+  if (!zxingReady) {
+    const wasmPath = createRequire(import.meta.url).resolve("zxing-wasm/reader/zxing_reader.wasm")
+    zxingReady = readFile(wasmPath).then((wasm) =>
+      prepareZXingModule({
+        overrides: { wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) },
+        fireImmediately: true,
+      }),
+    )
+  }
+  return zxingReady
+}
+
+// find QR codes and 1D/2D barcodes, which often encode PCN numbers, names or URLs with personal tokens
+export const detectBarcodes: VisualDetector = async ({ image }) => {
+  await ensureZXing()
+  const results = await readBarcodes(new Uint8Array(image), { tryHarder: true, maxNumberOfSymbols: 20 })
+
+  return results
+    .filter((result) => result.isValid)
+    .map((result) => {
+      const { topLeft, topRight, bottomRight, bottomLeft } = result.position
+      return {
+        label: QR_FORMATS.has(result.format) ? "QR Code" : "Barcode",
+        text: result.text || result.format,
+        vertices: [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y })),
+        confidence: 1.0,
+        matchType: `barcode decoder (${result.format})`,
+      }
+    })
+}
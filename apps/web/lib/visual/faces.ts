@@ -0,0 +1,109 @@
+import { existsSync } from "fs"
+import sharp from "sharp"
+import type { VisualDetection, VisualDetector } from "./types"
+
+// input size of the Ultra-Light-Fast-Generic-Face-Detector RFB-320 model
+const MODEL_WIDTH = 320
+const MODEL_HEIGHT = 240
+const SCORE_THRESHOLD = 0.7
+const IOU_THRESHOLD = 0.3
+
+type Box = { x0: number, y0: number, x1: number, y1: number, score: number }
+
+const iou = (a: Box, b: Box) => {
+  const ix = Math.max(0, Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0))
+  const iy = Math.max(0, Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0))
+  const intersection = ix * iy
+  const union = (a.x1 - a.x0) * (a.y1 - a.y0) + (b.x1 - b.x0) * (b.y1 - b.y0) - intersection
+  return union > 0 ? intersection / union : 0
+}
+
+// greedy non-maximum suppression over the model's candidate boxes
+const suppressOverlaps = (boxes: Box[]) => {
+  const kept: Box[] = []
+  for (const box of [...boxes].sort((a, b) => b.score - a.score)) {
+    if (kept.every((k) => iou(k, box) < IOU_THRESHOLD)) {
+      kept.push(box)
+    }
+  }
+  return kept
+}
+
+// helper function to lazily create the ONNX session, since the runtime is only needed when the model is configured
+let sessionPromise: Promise<import("onnxruntime-node").InferenceSession> | null = null
+const getSession = async (modelPath: string) => {
+  if (!sessionPromise) {
+    sessionPromise = import("onnxruntime-node").then((ort) => ort.InferenceSession.create(modelPath))
+  }
+  return sessionPromise
+}
+
+// whether FACE_DETECTION_MODEL_PATH points at a model file
+export const isFaceModelConfigured = () => {
+  const modelPath = process.env.FACE_DETECTION_MODEL_PATH
+  return Boolean(modelPath && existsSync(modelPath))
+}
+
+// detect faces with a local ONNX model (e.g. version-RFB-320.onnx from Ultra-Light-Fast-Generic-Face-Detector-1MB).
+// the model path comes from FACE_DETECTION_MODEL_PATH; without it the detector fails, so a request that asked for
+// faces is told they may be missing instead of getting none back
+export const detectFaces: VisualDetector = async ({ image, width, height }) => {
+  const modelPath = process.env.FACE_DETECTION_MODEL_PATH
+  if (!modelPath || !isFaceModelConfigured()) {
+    throw new Error("Face detection needs FACE_DETECTION_MODEL_PATH to point at the ONNX model.")
+  }
+
+  const ort = await import("onnxruntime-node")
+  const session = await getSession(modelPath)
+
+  // resize to the model input and normalise to [-1, 1] in CHW order
+  const pixels = await sharp(image)
+    .removeAlpha()
+    .resize(MODEL_WIDTH, MODEL_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer()
+  const planeSize = MODEL_WIDTH * MODEL_HEIGHT
+  const input = new Float32Array(3 * planeSize)
+  for (let i = 0; i < planeSize; i++) {
+    for (let c = 0; c < 3; c++) {
+      input[c * planeSize + i] = (pixels[i * 3 + c] - 127) / 128
+    }
+  }
+
+  const outputs = await session.run({
+    [session.inputNames[0]]: new ort.Tensor("float32", input, [1, 3, MODEL_HEIGHT, MODEL_WIDTH]),
+  })
+  const scores = outputs.scores.data as Float32Array
+  const boxes = outputs.boxes.data as Float32Array
+
+  const candidates: Box[] = []
+  for (let i = 0; i < scores.length / 2; i++) {
+    const score = scores[i * 2 + 1]
+    if (score < SCORE_THRESHOLD) continue
+    candidates.push({
+      x0: boxes[i * 4] * width,
+      y0: boxes[i * 4 + 1] * height,
+      x1: boxes[i * 4 + 2] * width,
+      y1: boxes[i * 4 + 3] * height,
+      score,
+    })
+  }
+
+  return suppressOverlaps(candidates).map((box): VisualDetection => {
+    // pad so hair and jawline are covered too
+    const padX = (box.x1 - box.x0) * 0.15
+    const padY = (box.y1 - box.y0) * 0.15
+    const x0 = Math.max(0, box.x0 - padX)
+    const y0 = Math.max(0, box.y0 - padY)
+    const x1 = Math.min(width, box.x1 + padX)
+    const y1 = Math.min(height, box.y1 + padY)
+
+    return {
+      label: "Face",
+      text: "Face",
+      vertices: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+      confidence: box.score,
+      matchType: "face detection",
+    }
+  })
+}
@@ -0,0 +1,66 @@
+import { createLogger } from "@/lib/logging"
+import type { PiiData } from "@/lib/pii/types"
+import { getBounds } from "@/lib/redaction/transform"
+import { detectBarcodes } from "./barcodes"
+import { detectFaces, isFaceModelConfigured } from "./faces"
+import { detectSignatures } from "./signatures"
+import type { VisualDetector, VisualDetectorInput, VisualDetectorName } from "./types"
+
+export type { VisualDetectorName } from "./types"
+
+const log = createLogger("visual-pii")
+
+const VISUAL_DETECTORS: Record<VisualDetectorName, VisualDetector> = {
+  faces: detectFaces,
+  signatures: detectSignatures,
+  barcodes: detectBarcodes,
+}
+
+export const VISUAL_DETECTOR_NAMES = Object.keys(VISUAL_DETECTORS) as VisualDetectorName[]
+
+// resolve which visual detectors to run: explicit choice first, then VISUAL_PII_DETECTORS env (comma separated), then
+// all of them, leaving out faces when no face model is configured. faces asked for by name without a model fail
+export const getVisualDetectorNames = (names?: VisualDetectorName[]): VisualDetectorName[] => {
+  if (names) return names
+
+  const configured = process.env.VISUAL_PII_DETECTORS
+  if (configured === undefined) return VISUAL_DETECTOR_NAMES.filter((name) => name !== "faces" || isFaceModelConfigured())
+
+  return configured
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is VisualDetectorName => VISUAL_DETECTOR_NAMES.includes(name as VisualDetectorName))
+}
+
+// run the visual detectors and convert their results to PiiData (ids start at 0, callers renumber them).
+// failed lists the detectors that crashed, so the caller can say the results are partial
+export const detectVisualPii = async (
+  input: VisualDetectorInput,
+  names: VisualDetectorName[],
+): Promise<{ piiData: PiiData[], failed: VisualDetectorName[] }> => {
+  const failed: VisualDetectorName[] = []
+  const results = await Promise.all(names.map(async (name) => {
+    try {
+      return await VISUAL_DETECTORS[name](input)
+    } catch (error) {
+      // a failing detector must not take down text redaction
+      log.error("Visual PII detector failed", { detector: name, error })
+      failed.push(name)
+      return []
+    }
+  }))
+
+  const piiData = results.flat().map((detection, index) => ({
+    id: index,
+    label: detection.label,
+    text: detection.text,
+    bbox: getBounds(detection.vertices),
+    vertices: detection.vertices,
+    redacted: true,
+    confidence: detection.confidence,
+    matchType: detection.matchType,
+    source: "visual" as const,
+  }))
+
+  return { piiData, failed }
+}
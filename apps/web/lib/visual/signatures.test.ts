@@ -0,0 +1,83 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import sharp from "sharp"
+import type { WordInfo } from "@/lib/pii/types"
+import { detectSignatures } from "./signatures"
+
+const WIDTH = 400
+const HEIGHT = 200
+
+// a white page to draw on, one byte per pixel
+const createPage = () => {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT, 255)
+  const ink = (x: number, y: number) => {
+    if (x >= 0 && y >= 0 && x < WIDTH && y < HEIGHT) pixels[Math.round(y) * WIDTH + Math.round(x)] = 0
+  }
+  const fill = (x0: number, y0: number, x1: number, y1: number) => {
+    for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) ink(x, y)
+  }
+  // a pen stroke two pixels thick that loops up and down like handwriting
+  const scrawl = (x0: number, x1: number, centreY: number) => {
+    for (let x = x0; x <= x1; x += 0.25) {
+      const y = centreY + 15 * Math.sin(x / 12)
+      ink(x, y)
+      ink(x, y + 1)
+    }
+  }
+  const toImage = () => sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 1 } }).png().toBuffer()
+  return { fill, scrawl, toImage }
+}
+
+const word = (text: string, x0: number, y0: number, x1: number, y1: number): WordInfo => ({
+  text,
+  boundingBox: { vertices: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }] },
+})
+
+// the "Signature:" label, printed as a dark block where OCR found it
+const LABEL = word("Signature:", 10, 40, 110, 60)
+
+const detect = async (page: ReturnType<typeof createPage>, words: WordInfo[] = []) => {
+  page.fill(12, 44, 108, 56)
+  return detectSignatures({ image: await page.toImage(), width: WIDTH, height: HEIGHT, words: [LABEL, ...words] })
+}
+
+describe("detectSignatures", () => {
+  it("finds a handwritten signature next to its label", async () => {
+    const page = createPage()
+    page.scrawl(130, 300, 50)
+    const [signature, ...rest] = await detect(page)
+    assert.deepEqual(rest, [])
+    const xs = signature.vertices.map((v) => v.x)
+    assert.ok(Math.min(...xs) <= 130 && Math.max(...xs) >= 300, `covers ${Math.min(...xs)}-${Math.max(...xs)}`)
+  })
+
+  it("finds a signature drawn across the signature line", async () => {
+    const page = createPage()
+    page.fill(120, 57, 390, 59)
+    page.scrawl(130, 300, 50)
+    assert.equal((await detect(page)).length, 1)
+  })
+
+  it("ignores an empty signature line or box", async () => {
+    const page = createPage()
+    page.fill(120, 57, 390, 59)
+    page.fill(20, 80, 300, 82)
+    page.fill(20, 130, 300, 132)
+    page.fill(20, 80, 22, 132)
+    page.fill(298, 80, 300, 132)
+    assert.deepEqual(await detect(page), [])
+  })
+
+  it("ignores a straight slash and scattered specks", async () => {
+    const page = createPage()
+    for (let i = 0; i < 40; i++) page.fill(140 + i, 70 - i, 142 + i, 72 - i)
+    for (let x = 130; x < 380; x += 9) page.fill(x, 45, x + 2, 47)
+    assert.deepEqual(await detect(page), [])
+  })
+
+  it("ignores printed words OCR read beside the label", async () => {
+    const page = createPage()
+    page.scrawl(130, 300, 50)
+    assert.deepEqual(await detect(page, [word("Jane", 125, 30, 210, 70), word("Smith", 210, 30, 305, 70)]), [])
+  })
+})
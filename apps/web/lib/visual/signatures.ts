@@ -0,0 +1,197 @@
+import sharp from "sharp"
+import { getBounds } from "@/lib/redaction/transform"
+import { toQuad } from "@/lib/pii/geometry"
+import type { WordInfo } from "@/lib/pii/types"
+import type { VisualDetection, VisualDetector } from "./types"
+
+// words that usually label a signature field
+const SIGNATURE_LABEL = /^(signature|signed|sign|signatory)[:.]?$/i
+
+// pixels darker than this count as ink
+const INK_THRESHOLD = 110
+// a candidate area needs at least this share of ink pixels in pen strokes to count as signed
+const MIN_INK_RATIO = 0.004
+// and at least this many stroke pixels in total
+const MIN_SIGNATURE_PIXELS = 50
+// connected pieces of ink smaller than this are specks and dust, not pen strokes
+const MIN_STROKE_PIXELS = 20
+// pen strokes curve, so a piece that is one straight line at any angle is not one: how far it spreads across its
+// main direction relative to along it (the ratio of its two principal axes)
+const MIN_BEND = 0.01
+
+type Rect = { x0: number, y0: number, x1: number, y1: number }
+
+const toRect = (word: WordInfo): Rect | null => {
+  const quad = toQuad(word.boundingBox)
+  if (!quad) return null
+  const [x, y, width, height] = getBounds(quad)
+  return { x0: x, y0: y, x1: x + width, y1: y + height }
+}
+
+// mark the pixels on horizontal and vertical runs of ink at least minLength long: signature lines, boxes and
+// filled shapes, which pen strokes rarely follow for long
+const markStraightRuns = (ink: Uint8Array, width: number, height: number, minLength: number) => {
+  const straight = new Uint8Array(ink.length)
+  const markRuns = (count: number, length: number, indexOf: (line: number, position: number) => number) => {
+    for (let line = 0; line < count; line++) {
+      let start = 0
+      for (let position = 0; position <= length; position++) {
+        if (position < length && ink[indexOf(line, position)]) continue
+        if (position - start >= minLength) {
+          for (let i = start; i < position; i++) straight[indexOf(line, i)] = 1
+        }
+        start = position + 1
+      }
+    }
+  }
+  markRuns(height, width, (y, x) => y * width + x)
+  markRuns(width, height, (x, y) => y * width + x)
+  return straight
+}
+
+// whether one connected piece of ink looks like a pen stroke, from its pixel indices in a width-wide grid
+const isPenStroke = (pixels: number[], width: number) => {
+  if (pixels.length < MIN_STROKE_PIXELS) return false
+
+  let sumX = 0
+  let sumY = 0
+  for (const index of pixels) {
+    sumX += index % width
+    sumY += Math.floor(index / width)
+  }
+  const meanX = sumX / pixels.length
+  const meanY = sumY / pixels.length
+  let xx = 0
+  let yy = 0
+  let xy = 0
+  for (const index of pixels) {
+    const dx = (index % width) - meanX
+    const dy = Math.floor(index / width) - meanY
+    xx += dx * dx
+    yy += dy * dy
+    xy += dx * dy
+  }
+  const half = (xx + yy) / 2
+  const spread = Math.sqrt(((xx - yy) / 2) ** 2 + xy ** 2)
+  const major = half + spread
+  return major > 0 && (half - spread) / major >= MIN_BEND
+}
+
+// find handwritten signatures by looking for pen strokes next to "Signature"/"Signed" labels in the OCR output.
+// printed words are skipped using their OCR boxes, so a filled-in name or date beside the label is not mistaken
+// for a signature
+export const detectSignatures: VisualDetector = async ({ image, width, height, words }) => {
+  const labels = words.filter((word) => SIGNATURE_LABEL.test(word.text.trim()))
+  if (labels.length === 0) return []
+
+  const { data: gray, info } = await sharp(image).greyscale().raw().toBuffer({ resolveWithObject: true })
+  const channels = info.channels
+  // OCR boxes around anything that read as letters or digits; a signature OCR read as a stray mark stays in
+  const printed = words
+    .filter((word) => /[a-zA-Z0-9]/.test(word.text))
+    .map(toRect)
+    .filter((rect): rect is Rect => rect !== null)
+
+  // bounding box of the pen strokes within a rectangle, ignoring printed words
+  const findStrokes = (area: Rect, lineHeight: number): Rect | null => {
+    const left = Math.max(0, Math.floor(area.x0))
+    const top = Math.max(0, Math.floor(area.y0))
+    const areaWidth = Math.min(width, Math.ceil(area.x1)) - left
+    const areaHeight = Math.min(height, Math.ceil(area.y1)) - top
+    if (areaWidth <= 0 || areaHeight <= 0) return null
+
+    const nearby = printed.filter((rect) => rect.x1 >= area.x0 && rect.x0 <= area.x1 && rect.y1 >= area.y0 && rect.y0 <= area.y1)
+    const ink = new Uint8Array(areaWidth * areaHeight)
+    for (let y = 0; y < areaHeight; y++) {
+      for (let x = 0; x < areaWidth; x++) {
+        const imageX = left + x
+        const imageY = top + y
+        if (nearby.some((rect) => imageX >= rect.x0 && imageX <= rect.x1 && imageY >= rect.y0 && imageY <= rect.y1)) continue
+        if (gray[(imageY * info.width + imageX) * channels] < INK_THRESHOLD) ink[y * areaWidth + x] = 1
+      }
+    }
+
+    // lines and filled shapes are taken out first, so a signature crossing its signature line still stands alone
+    const straight = markStraightRuns(ink, areaWidth, areaHeight, Math.max(8, Math.round(lineHeight)))
+    straight.forEach((isStraight, index) => {
+      if (isStraight) ink[index] = 0
+    })
+    const seen = new Uint8Array(ink.length)
+    const strokes: Rect = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity }
+    let strokePixels = 0
+
+    // walk each 8-connected piece of ink
+    for (let start = 0; start < ink.length; start++) {
+      if (!ink[start] || seen[start]) continue
+      const pixels: number[] = []
+      const stack = [start]
+      seen[start] = 1
+      while (stack.length > 0) {
+        const index = stack.pop()!
+        pixels.push(index)
+        const x = index % areaWidth
+        const y = Math.floor(index / areaWidth)
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx
+            const ny = y + dy
+            if (nx < 0 || ny < 0 || nx >= areaWidth || ny >= areaHeight) continue
+            const next = ny * areaWidth + nx
+            if (ink[next] && !seen[next]) {
+              seen[next] = 1
+              stack.push(next)
+            }
+          }
+        }
+      }
+
+      if (!isPenStroke(pixels, areaWidth)) continue
+      strokePixels += pixels.length
+      for (const index of pixels) {
+        const x = left + (index % areaWidth)
+        const y = top + Math.floor(index / areaWidth)
+        strokes.x0 = Math.min(strokes.x0, x)
+        strokes.y0 = Math.min(strokes.y0, y)
+        strokes.x1 = Math.max(strokes.x1, x)
+        strokes.y1 = Math.max(strokes.y1, y)
+      }
+    }
+
+    return strokePixels >= MIN_SIGNATURE_PIXELS && strokePixels / ink.length >= MIN_INK_RATIO ? strokes : null
+  }
+
+  const detections: VisualDetection[] = []
+  for (const label of labels) {
+    const labelRect = toRect(label)
+    if (!labelRect) continue
+    const { x0: lx, y0: ly } = labelRect
+    const lh = labelRect.y1 - ly
+
+    // signatures sit either to the right of the label on the same line, or on the lines below it
+    const candidates: Rect[] = [
+      { x0: labelRect.x1, y0: ly - lh * 2, x1: Math.min(width, labelRect.x1 + lh * 20), y1: labelRect.y1 + lh * 2 },
+      { x0: Math.max(0, lx - lh * 2), y0: labelRect.y1, x1: Math.min(width, lx + lh * 20), y1: Math.min(height, labelRect.y1 + lh * 5) },
+    ]
+
+    for (const candidate of candidates) {
+      const ink = findStrokes(candidate, lh)
+      if (!ink) continue
+
+      const pad = lh * 0.25
+      const x0 = Math.max(0, ink.x0 - pad)
+      const y0 = Math.max(0, ink.y0 - pad)
+      const x1 = Math.min(width, ink.x1 + pad)
+      const y1 = Math.min(height, ink.y1 + pad)
+      detections.push({
+        label: "Signature",
+        text: "Signature",
+        vertices: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+        confidence: 0.6,
+        matchType: `signature heuristic (near "${label.text}")`,
+      })
+      break
+    }
+  }
+
+  return detections
+}
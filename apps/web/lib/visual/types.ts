@@ -0,0 +1,21 @@
+import type { Point, WordInfo } from "@/lib/pii/types"
+
+export type VisualDetectorName = "faces" | "signatures" | "barcodes"
+
+// non-text PII found directly in the image, in the same pixel space as the OCR vertices
+export type VisualDetection = {
+  label: string
+  text: string
+  vertices: Point[]
+  confidence: number
+  matchType: string
+}
+
+export type VisualDetectorInput = {
+  image: Buffer
+  width: number
+  height: number
+  words: WordInfo[]
+}
+
+export type VisualDetector = (input: VisualDetectorInput) => Promise<VisualDetection[]>
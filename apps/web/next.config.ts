@@ -3,7 +3,9 @@ import type { NextConfig } from 'next';
 import withVercelToolbar from '@vercel/toolbar/plugins/next';
 
 const nextConfig: NextConfig = {
-  experimental: {},
+  // tesseract.js spawns worker threads and zxing-wasm loads its wasm binary from their own package
+  // directories, so they must not be bundled
+  serverExternalPackages: ['tesseract.js', 'zxing-wasm'],
 };
 
 // sentry configuration options
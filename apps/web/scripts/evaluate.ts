@@ -0,0 +1,84 @@
+// scores the detection pipeline against the labelled fixtures in evaluation/fixtures, offline by default:
+//
+//   pnpm evaluate                      replay recorded OCR and model answers, compare with the baseline
+//   pnpm evaluate parking-notice       only the named fixtures
+//   pnpm evaluate --update-baseline    save this run as the new baseline
+//   pnpm evaluate --record             call the real OCR and model (needs their keys) and save what they return
+//
+// exits with 1 when a metric dropped below the baseline or a fixture has prompts with no recorded answer
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { parseArgs } from "util"
+import {
+  DEFAULT_IOU_THRESHOLD,
+  compareReports,
+  formatReport,
+  isRegression,
+  loadFixtures,
+  runEvaluation,
+  saveRecordings,
+  type EvaluationReport,
+} from "@/lib/evaluation"
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    fixtures: { type: "string", default: "evaluation/fixtures" },
+    baseline: { type: "string", default: "evaluation/baseline.json" },
+    iou: { type: "string", default: String(DEFAULT_IOU_THRESHOLD) },
+    "update-baseline": { type: "boolean", default: false },
+    record: { type: "boolean", default: false },
+    json: { type: "boolean", default: false },
+  },
+})
+
+const main = async () => {
+  // pipeline logs would bury the report
+  process.env.LOG_LEVEL ??= "error"
+
+  const iouThreshold = Number(values.iou)
+  if (!(iouThreshold > 0 && iouThreshold <= 1)) {
+    throw new Error("--iou must be a number above 0 and at most 1.")
+  }
+
+  const fixtures = await loadFixtures(values.fixtures, positionals)
+  const report = await runEvaluation(fixtures, {
+    iouThreshold,
+    record: values.record,
+    onFixture: (fixture, run) => {
+      if (values.record) saveRecordings(fixture, run.recordings)
+    },
+  })
+
+  const baseline = existsSync(values.baseline) ? JSON.parse(readFileSync(values.baseline, "utf8")) as EvaluationReport : undefined
+  const changes = baseline ? compareReports(report, baseline) : []
+  const regressions = changes.filter(isRegression)
+  const missingRecordings = report.fixtures.filter((fixture) => fixture.missingRecordings > 0)
+
+  if (values.json) {
+    console.log(JSON.stringify({ report, changes }, null, 2))
+  } else {
+    console.log(formatReport(report, changes))
+    console.log()
+    if (!baseline) console.log(`No baseline at ${values.baseline}, run with --update-baseline to save one.`)
+    else if (changes.length === 0) console.log("No change from the baseline.")
+    else console.log(`${changes.length - regressions.length} improved, ${regressions.length} regressed since the baseline.`)
+    if (missingRecordings.length > 0) {
+      console.log(`Recordings are out of date for ${missingRecordings.map((fixture) => fixture.name).join(", ")}: run with --record.`)
+    }
+  }
+
+  if (values["update-baseline"]) {
+    writeFileSync(values.baseline, `${JSON.stringify(report, null, 2)}\n`)
+    console.log(`Saved the baseline to ${values.baseline}.`)
+    return
+  }
+
+  if (regressions.length > 0 || missingRecordings.length > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
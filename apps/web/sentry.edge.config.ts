@@ -1,5 +1,12 @@
 import * as Sentry from '@sentry/nextjs';
+import { scrubSentryBreadcrumb, scrubSentryEvent } from '@/lib/logging/sentry';
 
 const SENTRY_DSN = process.env.SENTRY_DSN || process.env.NEXT_PUBLIC_SENTRY_DSN;
 
-Sentry.init({ dsn: SENTRY_DSN, sendDefaultPii: true });
+// never send document text, uploads or requester details: this app exists to remove PII
+Sentry.init({
+  dsn: SENTRY_DSN,
+  sendDefaultPii: false,
+  beforeSend: scrubSentryEvent,
+  beforeBreadcrumb: scrubSentryBreadcrumb,
+});